@@ -0,0 +1,225 @@
+/**
+ * 사람의 승인이 필요한 쓰기 작업 대기열. 승인 규칙(MCP_APPROVAL_RULES)에 걸린 도구 호출은 실행하지 않고
+ * 대기열에 넣어 두었다가, 검토자가 approveAction 도구나 HTTP 엔드포인트(/approvals)로 승인하면 그때 실행한다.
+ * 검토자는 인증된 호출자여야 하며 요청자 자신은 승인하거나 거부할 수 없다.
+ * 세션마다 McpServer가 따로 만들어지므로 대기열은 모듈 단위로 공유하고, 작업은 요청한 세션의
+ * 도구 핸들러(세션 WordPress 자격 증명 포함)로 실행한다. 대기열은 메모리에만 있으므로 서버를 재시작하면 사라진다.
+ */
+import { randomUUID } from "node:crypto";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ApprovalPolicy } from "./config.js";
+import { WordPressApiError } from "./errors.js";
+import { changedResources, parseContentUri } from "./resources.js";
+import { fromSiteLocal } from "./schedule.js";
+import type { WPPage, WPPost, WordPressClient } from "./wordpress-client.js";
+
+/** 동시에 대기할 수 있는 작업 수 */
+export const MAX_PENDING_ACTIONS = 100;
+/** 처리가 끝난 작업을 조회용으로 보관하는 개수 (오래된 것부터 삭제) */
+const DECIDED_HISTORY = 100;
+
+export type ActionStatus = "pending" | "running" | "approved" | "rejected" | "failed";
+
+export interface PendingAction {
+  id: string;
+  tool: string;
+  site: string;
+  /** 도구 호출 인자 (승인 시 그대로 실행) */
+  args: Record<string, unknown>;
+  /** 승인이 필요한 이유 */
+  reasons: string[];
+  /** 요청한 호출자 (인증 비활성화 시 undefined) */
+  requestedBy?: string;
+  requestedAt: string;
+  status: ActionStatus;
+  decidedBy?: string;
+  decidedAt?: string;
+  /** 거부 사유 */
+  note?: string;
+  /** 승인 후 실행한 도구의 결과 (JSON이면 파싱한 값) */
+  result?: unknown;
+}
+
+/** 대기열 조작 오류. status는 HTTP 엔드포인트의 응답 코드로 사용한다 */
+export class ApprovalError extends Error {
+  constructor(
+    message: string,
+    readonly status: 403 | 404 | 409 | 503
+  ) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+/** 도구 결과 텍스트를 표시용 값으로 바꾼다 */
+function resultValue(result: CallToolResult): unknown {
+  const text = result.content
+    .filter((item) => item.type === "text")
+    .map((item) => item.text)
+    .join("\n");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export class ApprovalQueue {
+  private actions = new Map<string, { action: PendingAction; execute: () => Promise<CallToolResult> }>();
+
+  /** 작업을 대기열에 넣는다. execute는 승인 시 도구를 실행하는 함수 */
+  add(
+    request: Pick<PendingAction, "tool" | "site" | "args" | "reasons" | "requestedBy">,
+    execute: () => Promise<CallToolResult>
+  ): PendingAction {
+    if (this.list("pending").length >= MAX_PENDING_ACTIONS) {
+      throw new ApprovalError(
+        `승인 대기 작업이 상한(${MAX_PENDING_ACTIONS}건)에 도달했습니다. 검토자가 처리한 뒤 다시 시도하세요.`,
+        503
+      );
+    }
+    const action: PendingAction = {
+      id: randomUUID(),
+      ...request,
+      requestedAt: new Date().toISOString(),
+      status: "pending",
+    };
+    this.actions.set(action.id, { action, execute });
+    return action;
+  }
+
+  /** 요청 시각 순으로 반환한다 */
+  list(status?: ActionStatus): PendingAction[] {
+    return [...this.actions.values()]
+      .map((entry) => entry.action)
+      .filter((action) => status === undefined || action.status === status);
+  }
+
+  find(id: string): PendingAction | undefined {
+    return this.actions.get(id)?.action;
+  }
+
+  /** 대기 중인 작업을 실행한다. 도구가 오류를 반환하면 failed로 기록한다 */
+  async approve(id: string, reviewer?: string): Promise<PendingAction> {
+    const entry = this.pendingEntry(id, reviewer);
+    const { action } = entry;
+    // 실행 중 같은 작업을 다시 승인하지 못하도록 먼저 상태를 바꾼다
+    action.status = "running";
+    action.decidedBy = reviewer;
+    action.decidedAt = new Date().toISOString();
+    try {
+      const result = await entry.execute();
+      action.status = result.isError ? "failed" : "approved";
+      action.result = resultValue(result);
+    } catch (err) {
+      action.status = "failed";
+      action.result = { error: err instanceof Error ? err.message : String(err) };
+    }
+    this.prune();
+    return action;
+  }
+
+  reject(id: string, reviewer?: string, reason?: string): PendingAction {
+    const { action } = this.pendingEntry(id, reviewer);
+    action.status = "rejected";
+    action.decidedBy = reviewer;
+    action.decidedAt = new Date().toISOString();
+    action.note = reason;
+    this.prune();
+    return action;
+  }
+
+  private pendingEntry(id: string, reviewer: string | undefined) {
+    const entry = this.actions.get(id);
+    if (!entry) {
+      throw new ApprovalError(`승인 대기 작업을 찾을 수 없습니다: ${id}`, 404);
+    }
+    if (entry.action.status !== "pending") {
+      throw new ApprovalError(`이미 처리된 작업입니다 (상태: ${entry.action.status}).`, 409);
+    }
+    // 인증이 없으면 요청자와 검토자를 구분할 수 없으므로(에이전트의 자기 승인) 처리하지 않는다
+    if (reviewer === undefined) {
+      throw new ApprovalError(
+        "검토자를 확인할 수 없습니다. 인증을 사용하는 HTTP 모드에서 approve scope가 있는 자격 증명으로 처리하세요.",
+        403
+      );
+    }
+    if (reviewer === entry.action.requestedBy) {
+      throw new ApprovalError("자신이 요청한 작업은 승인하거나 거부할 수 없습니다.", 403);
+    }
+    return entry;
+  }
+
+  /** 처리가 끝난 작업은 최근 DECIDED_HISTORY개만 남긴다 */
+  private prune() {
+    const decided = this.list().filter((action) => action.status !== "pending" && action.status !== "running");
+    for (const action of decided.slice(0, Math.max(0, decided.length - DECIDED_HISTORY))) {
+      this.actions.delete(action.id);
+    }
+  }
+}
+
+/** 모든 세션이 공유하는 대기열 */
+export const approvals = new ApprovalQueue();
+
+/** force 인자와 관계없이 항상 영구 삭제하는 도구 (WordPress 미디어는 휴지통을 지원하지 않는다) */
+const ALWAYS_PERMANENT_DELETE = new Set(["deleteMedia"]);
+
+export function hasApprovalRules(policy: ApprovalPolicy): boolean {
+  return policy.forceDelete || policy.publish || policy.oldPostDays !== undefined;
+}
+
+/** 도구가 수정하는 게시글/페이지를 조회한다 (없는 대상은 실제 호출에서 오류가 나므로 건너뛴다) */
+async function targetContent(wp: WordPressClient, tool: string, args: Record<string, unknown>) {
+  const items: { type: "posts" | "pages"; item: WPPost | WPPage }[] = [];
+  for (const uri of changedResources(tool, args).updated) {
+    const target = parseContentUri(uri);
+    if (!target) continue;
+    try {
+      const item = target.type === "posts" ? await wp.getPost(target.id) : await wp.getPage(target.id);
+      items.push({ type: target.type, item });
+    } catch (err) {
+      if (err instanceof WordPressApiError && err.status === 404) continue;
+      throw err;
+    }
+  }
+  return items;
+}
+
+/** 발행 후 policy.oldPostDays일이 지난 게시글/페이지를 찾는다 */
+async function oldContent(wp: WordPressClient, tool: string, args: Record<string, unknown>, days: number) {
+  const reasons: string[] = [];
+  const cutoff = Date.now() - days * 86_400_000;
+  for (const { type, item } of await targetContent(wp, tool, args)) {
+    if (item.status !== "publish") continue;
+    const published = fromSiteLocal(item.date, await wp.getSiteTimezone());
+    if (published.getTime() < cutoff) {
+      const label = type === "posts" ? "게시글" : "페이지";
+      reasons.push(`발행 후 ${days}일이 지난 ${label} ${item.id} (${item.date}) 수정`);
+    }
+  }
+  return reasons;
+}
+
+/** 도구 호출이 승인 규칙에 걸리는 이유를 반환한다 (빈 배열이면 바로 실행) */
+export async function approvalReasons(
+  policy: ApprovalPolicy,
+  wp: WordPressClient,
+  tool: string,
+  args: Record<string, unknown>
+): Promise<string[]> {
+  const reasons: string[] = [];
+  if (policy.forceDelete && ALWAYS_PERMANENT_DELETE.has(tool)) {
+    reasons.push("휴지통을 지원하지 않는 영구 삭제 (미디어)");
+  } else if (policy.forceDelete && args.force === true) {
+    reasons.push("휴지통을 거치지 않는 영구 삭제 (force: true)");
+  }
+  const fields = args.fields && typeof args.fields === "object" ? (args.fields as Record<string, unknown>) : {};
+  if (policy.publish && (args.status === "publish" || fields.status === "publish")) {
+    reasons.push('발행 (status: "publish")');
+  }
+  if (policy.oldPostDays !== undefined) {
+    reasons.push(...(await oldContent(wp, tool, args, policy.oldPostDays)));
+  }
+  return reasons;
+}
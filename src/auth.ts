@@ -0,0 +1,228 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { createRemoteJWKSet, jwtVerify, type JWTPayload, type JWTVerifyGetKey } from "jose";
+import { ALL_SCOPES, type HttpAuthConfig, type JwtConfig, type Scope, type SiteAuth } from "./config.js";
+import { logger } from "./logger.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** 인증 미들웨어가 검증한 호출자 정보 (MCP 전송이 도구 핸들러의 authInfo로 전달) */
+      auth?: AuthInfo;
+    }
+  }
+}
+
+/**
+ * 도구별로 필요한 scope. 이름 접두사로 추정하지 않고 도구마다 명시한다.
+ * 사용자/역할 관리는 admin, 휴지통 이동과 삭제는 delete, 승인 대기열 처리는 approve가 필요하다
+ */
+const TOOL_SCOPES: Record<string, Scope> = {
+  listSites: "read",
+  listPosts: "read",
+  getPost: "read",
+  createPost: "write",
+  updatePost: "write",
+  deletePost: "delete",
+  getEditorialCalendar: "read",
+  reschedulePost: "write",
+  getPostBlocks: "read",
+  insertBlock: "write",
+  replaceBlock: "write",
+  removeBlock: "delete",
+  getBuilderLayout: "read",
+  activateBuilder: "write",
+  insertBuilderSection: "write",
+  updateBuilderSection: "write",
+  removeBuilderSection: "delete",
+  listRevisions: "read",
+  getRevision: "read",
+  diffRevisions: "read",
+  restoreRevision: "write",
+  listPages: "read",
+  getPage: "read",
+  createPage: "write",
+  updatePage: "write",
+  deletePage: "delete",
+  listPostTypes: "read",
+  listTaxonomies: "read",
+  listItems: "read",
+  getItem: "read",
+  createItem: "write",
+  updateItem: "write",
+  deleteItem: "delete",
+  listMetaFields: "read",
+  getPostMeta: "read",
+  updatePostMeta: "write",
+  listCategories: "read",
+  getCategory: "read",
+  createCategory: "write",
+  updateCategory: "write",
+  deleteCategory: "delete",
+  listTags: "read",
+  getTag: "read",
+  createTag: "write",
+  updateTag: "write",
+  deleteTag: "delete",
+  listMedia: "read",
+  getMedia: "read",
+  uploadMedia: "write",
+  updateMedia: "write",
+  deleteMedia: "delete",
+  listComments: "read",
+  getComment: "read",
+  replyToComment: "write",
+  updateComment: "write",
+  moderateComments: "write",
+  deleteComment: "delete",
+  listUsers: "read",
+  getUser: "read",
+  getCurrentUser: "read",
+  getCapabilities: "read",
+  createUser: "admin",
+  updateUser: "admin",
+  getYoastSeo: "read",
+  updateYoastSeo: "write",
+  auditSeo: "read",
+  listPendingActions: "read",
+  approveAction: "approve",
+  rejectAction: "approve",
+};
+
+/** 도구 실행에 필요한 scope. 목록에 없는 도구는 등록 시점에 오류를 던진다 */
+export function toolScope(toolName: string): Scope {
+  const scope = TOOL_SCOPES[toolName];
+  if (!scope) {
+    throw new Error(`도구 ${toolName}의 scope가 정의되지 않았습니다 (auth.ts TOOL_SCOPES).`);
+  }
+  return scope;
+}
+
+/** 길이와 무관하게 일정한 시간에 비교하도록 해시끼리 비교한다 */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash("sha256").update(a).digest();
+  const hashB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/** JWT의 scope(공백 구분 문자열) 또는 scp(배열) 클레임에서 이 서버가 아는 scope만 추린다 */
+function scopesFromClaims(payload: JWTPayload, fallback: Scope[]): Scope[] {
+  const raw = payload.scope ?? payload.scp;
+  const values = typeof raw === "string" ? raw.split(" ") : Array.isArray(raw) ? raw.map(String) : null;
+  if (!values) return fallback;
+  return ALL_SCOPES.filter((scope) => values.includes(scope));
+}
+
+function extractToken(req: Request): string | undefined {
+  const apiKey = req.headers["x-api-key"];
+  if (typeof apiKey === "string" && apiKey) {
+    return apiKey;
+  }
+  const header = req.headers.authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1].trim();
+}
+
+/**
+ * HTTP 전송 인바운드 인증.
+ * 정적 API 키(X-API-Key 또는 Authorization: Bearer)를 먼저 확인하고,
+ * 일치하는 키가 없으면 JWT 설정이 있을 때 Bearer 토큰을 JWT로 검증한다.
+ */
+export class HttpAuthenticator {
+  private readonly jwt?: JwtConfig;
+  private readonly jwtKey?: Uint8Array | JWTVerifyGetKey;
+
+  constructor(private readonly config: HttpAuthConfig) {
+    this.jwt = config.jwt;
+    if (config.jwt?.jwksUrl) {
+      this.jwtKey = createRemoteJWKSet(new URL(config.jwt.jwksUrl));
+    } else if (config.jwt?.secret) {
+      this.jwtKey = new TextEncoder().encode(config.jwt.secret);
+    }
+  }
+
+  /** API 키와 JWT가 모두 설정되지 않았으면 인증을 사용하지 않는다 */
+  get enabled(): boolean {
+    return this.config.apiKeys.length > 0 || this.jwtKey !== undefined;
+  }
+
+  /** 요청의 자격 증명을 검증한다. 자격 증명이 없거나 유효하지 않으면 null */
+  async verify(req: Request): Promise<AuthInfo | null> {
+    const token = extractToken(req);
+    if (!token) return null;
+
+    const apiKey = this.config.apiKeys.find((entry) => safeEqual(entry.key, token));
+    if (apiKey) {
+      return { token, clientId: `key:${apiKey.name}`, scopes: apiKey.scopes };
+    }
+
+    if (!this.jwt || !this.jwtKey) return null;
+    try {
+      const options = { issuer: this.jwt.issuer, audience: this.jwt.audience };
+      const { payload } =
+        this.jwtKey instanceof Uint8Array
+          ? await jwtVerify(token, this.jwtKey, options)
+          : await jwtVerify(token, this.jwtKey, options);
+      return {
+        token,
+        clientId: `jwt:${payload.sub ?? payload.client_id ?? "anonymous"}`,
+        scopes: scopesFromClaims(payload, this.jwt.defaultScopes),
+        expiresAt: payload.exp,
+      };
+    } catch (err) {
+      logger.warn(`JWT 검증 실패: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  }
+
+  /** 인증되지 않은 요청을 401로 거부하고, 통과한 요청에는 req.auth를 설정하는 미들웨어 */
+  middleware(): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!this.enabled) {
+        next();
+        return;
+      }
+      const auth = await this.verify(req);
+      if (!auth) {
+        res
+          .status(401)
+          .set("WWW-Authenticate", 'Bearer realm="wordpress-mcp"')
+          .json({ error: "인증이 필요합니다. X-API-Key 또는 Authorization: Bearer 헤더를 보내세요." });
+        return;
+      }
+      req.auth = auth;
+      next();
+    };
+  }
+}
+
+function header(req: Request, name: string): string | undefined {
+  const value = req.headers[name];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * 세션 시작 요청 헤더에서 호출자 본인의 WordPress 자격 증명을 읽는다.
+ * X-WordPress-Token 또는 X-WordPress-Username + X-WordPress-App-Password. 없으면 undefined.
+ * 자격 증명은 X-WordPress-Site로 지정한 사이트(생략 시 기본 사이트)에만 보낸다
+ */
+export function wordpressCredentials(req: Request): { site?: string; auth: SiteAuth } | undefined {
+  const site = header(req, "x-wordpress-site");
+  const token = header(req, "x-wordpress-token");
+  if (token) {
+    return { site, auth: { type: "bearer", token } };
+  }
+  const username = header(req, "x-wordpress-username");
+  const password = header(req, "x-wordpress-app-password");
+  if (username && password) {
+    return { site, auth: { type: "basic", username, password } };
+  }
+  if (username || password) {
+    throw new Error("X-WordPress-Username과 X-WordPress-App-Password를 함께 보내야 합니다.");
+  }
+  if (site) {
+    throw new Error("X-WordPress-Site는 WordPress 자격 증명 헤더와 함께 보내야 합니다.");
+  }
+  return undefined;
+}
@@ -0,0 +1,259 @@
+/**
+ * Gutenberg 블록 문법(<!-- wp:name {attrs} --> ... <!-- /wp:name -->) 파서와 직렬화기.
+ * WordPress의 @wordpress/block-serialization-default-parser와 동일한 규칙으로 동작하므로
+ * 파싱 후 다시 직렬화해도 블록 내부 HTML은 바뀌지 않는다.
+ */
+
+export interface ParsedBlock {
+  /** 블록 이름 (예: core/paragraph). 블록 주석 밖의 HTML(클래식 콘텐츠)은 null */
+  blockName: string | null;
+  attrs: Record<string, unknown>;
+  innerBlocks: ParsedBlock[];
+  innerHTML: string;
+  /** HTML 조각과 내부 블록 위치(null)를 순서대로 담는다 */
+  innerContent: Array<string | null>;
+}
+
+interface Frame {
+  block: ParsedBlock;
+  tokenStart: number;
+  tokenLength: number;
+  prevOffset: number;
+  leadingHtmlStart: number | null;
+}
+
+type BlockToken =
+  | ["no-more-tokens"]
+  | ["void-block" | "block-opener", string, Record<string, unknown>, number, number]
+  | ["block-closer", string, null, number, number];
+
+const TOKENIZER =
+  /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*\/)?([a-z][a-z0-9_-]*)\s+({(?:(?=([^}]+|}+(?=})|(?!}\s+\/?-->)[^])*)\5|[^]*?)}\s+)?(\/)?-->/g;
+
+function createBlock(
+  blockName: string | null,
+  attrs: Record<string, unknown> = {},
+  innerHTML = "",
+  innerContent: Array<string | null> = []
+): ParsedBlock {
+  return { blockName, attrs, innerBlocks: [], innerHTML, innerContent };
+}
+
+function freeform(html: string): ParsedBlock {
+  return createBlock(null, {}, html, [html]);
+}
+
+function parseAttrs(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** 블록 마크업 문서를 최상위 블록 배열로 파싱한다 */
+export function parseBlocks(document: string): ParsedBlock[] {
+  const output: ParsedBlock[] = [];
+  const stack: Frame[] = [];
+  let offset = 0;
+
+  const nextToken = (): BlockToken => {
+    TOKENIZER.lastIndex = offset;
+    const matches = TOKENIZER.exec(document);
+    if (!matches) {
+      return ["no-more-tokens"];
+    }
+    const [match, closerMatch, namespaceMatch, nameMatch, attrsMatch, , voidMatch] = matches;
+    const name = (namespaceMatch || "core/") + nameMatch;
+    if (voidMatch) {
+      return ["void-block", name, attrsMatch ? parseAttrs(attrsMatch) : {}, matches.index, match.length];
+    }
+    if (closerMatch) {
+      return ["block-closer", name, null, matches.index, match.length];
+    }
+    return ["block-opener", name, attrsMatch ? parseAttrs(attrsMatch) : {}, matches.index, match.length];
+  };
+
+  const addFreeform = (rawLength?: number) => {
+    const length = rawLength ?? document.length - offset;
+    if (length === 0) return;
+    output.push(freeform(document.substr(offset, length)));
+  };
+
+  const addInnerBlock = (block: ParsedBlock, tokenStart: number, tokenLength: number, lastOffset?: number) => {
+    const parent = stack[stack.length - 1];
+    parent.block.innerBlocks.push(block);
+    const html = document.substr(parent.prevOffset, tokenStart - parent.prevOffset);
+    if (html) {
+      parent.block.innerHTML += html;
+      parent.block.innerContent.push(html);
+    }
+    parent.block.innerContent.push(null);
+    parent.prevOffset = lastOffset ?? tokenStart + tokenLength;
+  };
+
+  const addBlockFromStack = (endOffset?: number) => {
+    const { block, leadingHtmlStart, prevOffset, tokenStart } = stack.pop()!;
+    const html =
+      endOffset !== undefined
+        ? document.substr(prevOffset, endOffset - prevOffset)
+        : document.substr(prevOffset);
+    if (html) {
+      block.innerHTML += html;
+      block.innerContent.push(html);
+    }
+    if (leadingHtmlStart !== null) {
+      output.push(freeform(document.substr(leadingHtmlStart, tokenStart - leadingHtmlStart)));
+    }
+    output.push(block);
+  };
+
+  const proceed = (): boolean => {
+    const token = nextToken();
+    const stackDepth = stack.length;
+
+    if (token[0] === "no-more-tokens") {
+      if (stackDepth === 0) {
+        addFreeform();
+      } else {
+        while (stack.length > 0) addBlockFromStack();
+      }
+      return false;
+    }
+
+    const [tokenType, blockName, attrs, startOffset, tokenLength] = token;
+    const leadingHtmlStart = startOffset > offset ? offset : null;
+
+    if (tokenType === "void-block") {
+      if (stackDepth === 0) {
+        if (leadingHtmlStart !== null) {
+          output.push(freeform(document.substr(leadingHtmlStart, startOffset - leadingHtmlStart)));
+        }
+        output.push(createBlock(blockName, attrs));
+      } else {
+        addInnerBlock(createBlock(blockName, attrs), startOffset, tokenLength);
+      }
+      offset = startOffset + tokenLength;
+      return true;
+    }
+
+    if (tokenType === "block-opener") {
+      stack.push({
+        block: createBlock(blockName, attrs),
+        tokenStart: startOffset,
+        tokenLength,
+        prevOffset: startOffset + tokenLength,
+        leadingHtmlStart,
+      });
+      offset = startOffset + tokenLength;
+      return true;
+    }
+
+    // block-closer
+    if (stackDepth === 0) {
+      // 짝이 없는 닫는 주석: 나머지를 그대로 HTML로 남긴다
+      addFreeform();
+      return false;
+    }
+    if (stackDepth === 1) {
+      addBlockFromStack(startOffset);
+      offset = startOffset + tokenLength;
+      return true;
+    }
+    const top = stack.pop()!;
+    const html = document.substr(top.prevOffset, startOffset - top.prevOffset);
+    top.block.innerHTML += html;
+    top.block.innerContent.push(html);
+    top.prevOffset = startOffset + tokenLength;
+    addInnerBlock(top.block, top.tokenStart, top.tokenLength, startOffset + tokenLength);
+    offset = startOffset + tokenLength;
+    return true;
+  };
+
+  while (proceed());
+  return output;
+}
+
+/** 블록 주석 안에 안전하게 넣을 수 있도록 속성 JSON을 직렬화한다 (WordPress serializeAttributes와 동일) */
+function serializeAttributes(attrs: Record<string, unknown>): string {
+  return JSON.stringify(attrs)
+    .replace(/--/g, "\\u002d\\u002d")
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026")
+    .replace(/\\"/g, "\\u0022");
+}
+
+export function serializeBlock(block: ParsedBlock): string {
+  if (block.blockName === null) {
+    return block.innerHTML;
+  }
+
+  let childIndex = 0;
+  const content = block.innerContent
+    .map((part) => (part === null ? serializeBlock(block.innerBlocks[childIndex++]) : part))
+    .join("");
+
+  const name = block.blockName.startsWith("core/") ? block.blockName.slice(5) : block.blockName;
+  const attrs = Object.keys(block.attrs).length > 0 ? `${serializeAttributes(block.attrs)} ` : "";
+
+  if (!content) {
+    return `<!-- wp:${name} ${attrs}/-->`;
+  }
+  return `<!-- wp:${name} ${attrs}-->${content}<!-- /wp:${name} -->`;
+}
+
+export function serializeBlocks(blocks: ParsedBlock[]): string {
+  return blocks.map(serializeBlock).join("");
+}
+
+// --- 블록 단위 편집 헬퍼 ---
+
+/** 블록 사이 공백뿐인 HTML 조각인지 여부 */
+function isWhitespace(block: ParsedBlock): boolean {
+  return block.blockName === null && block.innerHTML.trim() === "";
+}
+
+/** 편집 대상이 되는 최상위 블록 목록 (블록 사이 공백 조각 제외) */
+export function contentBlocks(document: string): ParsedBlock[] {
+  return parseBlocks(document).filter((block) => !isWhitespace(block));
+}
+
+/** 블록 목록을 빈 줄로 구분하여 게시글 본문으로 직렬화한다 */
+export function joinBlocks(blocks: ParsedBlock[]): string {
+  return blocks.map((block) => serializeBlock(block).trim()).join("\n\n");
+}
+
+/** 블록의 HTML 앵커(첫 요소의 id 속성) 또는 anchor 속성을 반환한다 */
+export function blockAnchor(block: ParsedBlock): string | undefined {
+  if (typeof block.attrs.anchor === "string") {
+    return block.attrs.anchor;
+  }
+  const firstHtml = block.innerContent.find((part): part is string => !!part && part.trim() !== "");
+  const match = firstHtml?.match(/^\s*<[a-z][a-z0-9-]*\b[^>]*\sid="([^"]+)"/i);
+  return match?.[1];
+}
+
+export interface BlockLocator {
+  index?: number;
+  anchor?: string;
+}
+
+/** index 또는 anchor로 최상위 블록 위치를 찾는다. 찾지 못하면 오류를 던진다 */
+export function locateBlock(blocks: ParsedBlock[], locator: BlockLocator): number {
+  if (locator.index !== undefined) {
+    if (locator.index < 0 || locator.index >= blocks.length) {
+      throw new Error(`블록 index ${locator.index}가 범위를 벗어났습니다. (블록 수: ${blocks.length})`);
+    }
+    return locator.index;
+  }
+  if (locator.anchor !== undefined) {
+    const index = blocks.findIndex((block) => blockAnchor(block) === locator.anchor);
+    if (index === -1) {
+      throw new Error(`anchor "${locator.anchor}"를 가진 블록을 찾을 수 없습니다.`);
+    }
+    return index;
+  }
+  throw new Error("index 또는 anchor 중 하나를 지정해야 합니다.");
+}
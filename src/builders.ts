@@ -0,0 +1,354 @@
+/**
+ * 페이지 빌더 어댑터. 빌더마다 레이아웃 저장 위치와 형식이 다르므로(Avia: 본문 쇼트코드,
+ * Elementor: _elementor_data meta의 JSON, Gutenberg: 본문 블록 주석) 공통 LayoutNode 트리로 읽고 쓴다.
+ */
+import { randomBytes } from "node:crypto";
+import { contentBlocks, joinBlocks, serializeBlock, type ParsedBlock } from "./blocks.js";
+import { parseShortcodes, serializeShortcodes, type ShortcodeNode } from "./shortcodes.js";
+import type { WordPressClient } from "./wordpress-client.js";
+
+export type BuilderName = "avia" | "elementor" | "blocks";
+
+export type BuilderPostType = "posts" | "pages";
+
+/** 빌더 공통 레이아웃 요소 */
+export interface LayoutNode {
+  /** 요소 종류 (Avia 쇼트코드 태그, Elementor 요소/위젯 종류, 블록 이름). 빌더 밖 텍스트는 text */
+  type: string;
+  /** 빌더가 부여한 요소 ID (Elementor) */
+  id?: string;
+  attrs: Record<string, unknown>;
+  /** 하위 요소 없이 내용을 가진 요소의 본문 (HTML 또는 쇼트코드가 섞인 텍스트) */
+  content?: string;
+  children?: LayoutNode[];
+}
+
+/** 빌더 어댑터가 읽고 쓰는 게시글 (context=edit 원본 본문과 REST에 등록된 meta) */
+export interface BuilderPost {
+  id: number;
+  type: BuilderPostType;
+  content: string;
+  meta: Record<string, unknown>;
+}
+
+/** 레이아웃 저장 시 게시글에 반영할 변경 */
+export interface BuilderChanges {
+  content?: string;
+  meta?: Record<string, unknown>;
+}
+
+export interface BuilderAdapter {
+  readonly name: BuilderName;
+  readonly label: string;
+  /** 게시글이 이 빌더로 편집되는지 여부 */
+  detect(post: BuilderPost): boolean;
+  /** 게시글을 이 빌더로 편집하도록 설정한다 */
+  activate(wp: WordPressClient, post: BuilderPost): Promise<unknown>;
+  readLayout(post: BuilderPost): LayoutNode[];
+  writeLayout(post: BuilderPost, layout: LayoutNode[]): BuilderChanges;
+}
+
+export async function loadBuilderPost(
+  wp: WordPressClient,
+  type: BuilderPostType,
+  id: number
+): Promise<BuilderPost> {
+  const post = type === "pages" ? await wp.getPage(id, "edit") : await wp.getPost(id, "edit");
+  // rendered HTML은 쇼트코드와 블록 주석이 이미 펼쳐져 있어 레이아웃으로 읽거나 다시 저장할 수 없다
+  if (post.content.raw === undefined) {
+    throw new Error(
+      `${type === "pages" ? "페이지" : "게시글"} ${id}의 원본 본문(content.raw)을 조회할 수 없습니다. 편집 권한(context=edit)이 있는 계정인지 확인하세요.`
+    );
+  }
+  return { id: post.id, type, content: post.content.raw, meta: post.meta ?? {} };
+}
+
+export async function saveBuilderPost(
+  wp: WordPressClient,
+  post: BuilderPost,
+  changes: BuilderChanges
+): Promise<BuilderPost> {
+  const updated =
+    post.type === "pages" ? await wp.updatePage(post.id, changes) : await wp.updatePost(post.id, changes);
+  return {
+    id: updated.id,
+    type: post.type,
+    content: updated.content.raw ?? changes.content ?? post.content,
+    meta: updated.meta ?? {},
+  };
+}
+
+// --- Avia (Enfold) ---
+
+const AVIA_ACTIVE_META = "_aviaLayoutBuilder_active";
+/** Enfold 편집기가 불러오는 레이아웃 사본. REST에 등록된 사이트에서만 함께 갱신한다 */
+const AVIA_CLEAN_DATA_META = "_aviaLayoutBuilderCleanData";
+
+function fromShortcode(node: ShortcodeNode): LayoutNode | undefined {
+  if (node.type === "text") {
+    // 구조 쇼트코드 사이의 줄바꿈은 저장할 때 다시 넣는다
+    return node.text.trim() ? { type: "text", attrs: {}, content: node.text } : undefined;
+  }
+  if (!node.enclosing) {
+    return { type: node.tag, attrs: node.attrs };
+  }
+  const structural =
+    node.children.some((child) => child.type === "shortcode") &&
+    node.children.every((child) => child.type === "shortcode" || !child.text.trim());
+  if (!structural) {
+    return { type: node.tag, attrs: node.attrs, content: serializeShortcodes(node.children) };
+  }
+  return {
+    type: node.tag,
+    attrs: node.attrs,
+    children: node.children.map(fromShortcode).filter((child): child is LayoutNode => child !== undefined),
+  };
+}
+
+function toShortcode(node: LayoutNode): ShortcodeNode {
+  if (node.type === "text") {
+    return { type: "text", text: node.content ?? "" };
+  }
+  const attrs = Object.fromEntries(Object.entries(node.attrs).map(([key, value]) => [key, String(value)]));
+  if (node.content !== undefined) {
+    const children: ShortcodeNode[] = [{ type: "text", text: node.content }];
+    return { type: "shortcode", tag: node.type, attrs, enclosing: true, children };
+  }
+  if (node.children === undefined) {
+    return { type: "shortcode", tag: node.type, attrs, enclosing: false, children: [] };
+  }
+  return { type: "shortcode", tag: node.type, attrs, enclosing: true, children: withLineBreaks(node.children) };
+}
+
+function withLineBreaks(nodes: LayoutNode[]): ShortcodeNode[] {
+  const lineBreak: ShortcodeNode = { type: "text", text: "\n" };
+  return [...nodes.flatMap((node) => [lineBreak, toShortcode(node)]), lineBreak];
+}
+
+const avia: BuilderAdapter = {
+  name: "avia",
+  label: "Avia Layout Builder (Enfold)",
+  detect: (post) => post.meta[AVIA_ACTIVE_META] === "active" || /\[av_[a-z0-9_]+/i.test(post.content),
+  activate: (wp, post) => wp.activateBuilder(post.id),
+  readLayout: (post) =>
+    parseShortcodes(post.content)
+      .map(fromShortcode)
+      .filter((node): node is LayoutNode => node !== undefined),
+  writeLayout: (post, layout) => {
+    const content = serializeShortcodes(withLineBreaks(layout)).trim();
+    if (!(AVIA_CLEAN_DATA_META in post.meta)) return { content };
+    return { content, meta: { [AVIA_CLEAN_DATA_META]: content } };
+  },
+};
+
+// --- Elementor ---
+
+const ELEMENTOR_DATA_META = "_elementor_data";
+const ELEMENTOR_MODE_META = "_elementor_edit_mode";
+const ELEMENTOR_CONTAINERS = ["section", "column", "container"];
+
+interface ElementorElement {
+  id: string;
+  elType: string;
+  widgetType?: string;
+  isInner?: boolean;
+  /** 설정이 없으면 Elementor는 빈 배열로 저장한다 */
+  settings: Record<string, unknown> | [];
+  elements: ElementorElement[];
+  [key: string]: unknown;
+}
+
+function elementorData(post: BuilderPost): ElementorElement[] {
+  const raw = post.meta[ELEMENTOR_DATA_META];
+  if (raw === undefined) {
+    throw new Error(
+      `${ELEMENTOR_DATA_META} meta를 읽을 수 없습니다. Elementor meta를 REST API에 등록(register_post_meta, show_in_rest)했는지 확인하세요.`
+    );
+  }
+  if (Array.isArray(raw)) return raw as ElementorElement[];
+  if (typeof raw !== "string" || raw === "") return [];
+  const parsed = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+function fromElementor(element: ElementorElement): LayoutNode {
+  const node: LayoutNode = {
+    type: element.elType === "widget" ? (element.widgetType ?? "widget") : element.elType,
+    id: element.id,
+    attrs: Array.isArray(element.settings) ? {} : element.settings,
+  };
+  if (element.elType !== "widget") {
+    node.children = (element.elements ?? []).map(fromElementor);
+  }
+  return node;
+}
+
+/** Elementor 요소 ID (7자리 16진수) */
+function elementorId(): string {
+  return randomBytes(4).toString("hex").slice(0, 7);
+}
+
+function toElementor(node: LayoutNode, originals: Map<string, ElementorElement>, depth: number): ElementorElement {
+  const original = node.id ? originals.get(node.id) : undefined;
+  const container = ELEMENTOR_CONTAINERS.includes(node.type);
+  const element: ElementorElement = {
+    // 편집하지 않은 속성(isInner 외 Elementor 내부 값)은 원래 요소에서 유지한다
+    ...original,
+    id: node.id ?? elementorId(),
+    elType: container ? node.type : "widget",
+    settings: node.attrs,
+    elements: (node.children ?? []).map((child) => toElementor(child, originals, depth + 1)),
+  };
+  if (container) {
+    delete element.widgetType;
+    if (node.type !== "column") element.isInner = depth > 0;
+  } else {
+    element.widgetType = node.type;
+  }
+  return element;
+}
+
+function indexElements(elements: ElementorElement[], map = new Map<string, ElementorElement>()) {
+  for (const element of elements) {
+    map.set(element.id, element);
+    indexElements(element.elements ?? [], map);
+  }
+  return map;
+}
+
+const elementor: BuilderAdapter = {
+  name: "elementor",
+  label: "Elementor",
+  detect: (post) => post.meta[ELEMENTOR_MODE_META] === "builder",
+  activate: async (wp, post) => {
+    const updated = await saveBuilderPost(wp, post, {
+      meta: { [ELEMENTOR_MODE_META]: "builder", [ELEMENTOR_DATA_META]: JSON.stringify(elementorData(post)) },
+    });
+    if (updated.meta[ELEMENTOR_MODE_META] !== "builder") {
+      throw new Error(`${ELEMENTOR_MODE_META} meta가 REST API에 등록되지 않아 Elementor를 활성화할 수 없습니다.`);
+    }
+    return { id: updated.id, builder: "elementor", active: true };
+  },
+  readLayout: (post) => elementorData(post).map(fromElementor),
+  writeLayout: (post, layout) => {
+    const originals = indexElements(elementorData(post));
+    const elements = layout.map((node) => toElementor(node, originals, 0));
+    return { meta: { [ELEMENTOR_DATA_META]: JSON.stringify(elements) } };
+  },
+};
+
+// --- Gutenberg / 클래식 ---
+
+/** 블록 주석 안쪽 마크업 (내부 블록 포함) */
+function innerMarkup(block: ParsedBlock): string {
+  let childIndex = 0;
+  return block.innerContent
+    .map((part) => (part === null ? serializeBlock(block.innerBlocks[childIndex++]) : part))
+    .join("");
+}
+
+function toBlock(node: LayoutNode): ParsedBlock {
+  if (node.type === "core/freeform" || node.type === "text") {
+    const html = node.content ?? "";
+    return { blockName: null, attrs: {}, innerBlocks: [], innerHTML: html, innerContent: [html] };
+  }
+  if (node.content === undefined && node.children) {
+    const innerBlocks = node.children.map(toBlock);
+    return {
+      blockName: node.type,
+      attrs: node.attrs,
+      innerBlocks,
+      innerHTML: "",
+      innerContent: innerBlocks.flatMap((): Array<string | null> => ["\n", null]).concat("\n"),
+    };
+  }
+  const html = node.content ?? "";
+  return { blockName: node.type, attrs: node.attrs, innerBlocks: [], innerHTML: html, innerContent: [html] };
+}
+
+const blocks: BuilderAdapter = {
+  name: "blocks",
+  label: "Gutenberg / 클래식 편집기",
+  // 다른 빌더가 감지되지 않은 게시글은 모두 블록(클래식 본문은 freeform 블록 하나)으로 다룬다
+  detect: () => true,
+  activate: async (_wp, post) => ({
+    id: post.id,
+    builder: "blocks",
+    active: true,
+    message: "Gutenberg/클래식 편집기는 별도 활성화가 필요하지 않습니다.",
+  }),
+  readLayout: (post) =>
+    contentBlocks(post.content).map((block) => ({
+      type: block.blockName ?? "core/freeform",
+      attrs: block.attrs,
+      content: block.blockName === null ? block.innerHTML : innerMarkup(block),
+    })),
+  // 블록 마크업은 다시 파싱하여 내부 블록 구조를 복원한다
+  writeLayout: (_post, layout) => ({
+    content: joinBlocks(contentBlocks(layout.map((node) => serializeBlock(toBlock(node))).join("\n\n"))),
+  }),
+};
+
+/** 감지 순서. blocks는 항상 감지되므로 마지막에 둔다 */
+export const BUILDERS: BuilderAdapter[] = [elementor, avia, blocks];
+
+/** 이름으로 어댑터를 고르거나, 생략하면 게시글에서 감지한다 */
+export function resolveBuilder(post: BuilderPost, name?: BuilderName): BuilderAdapter {
+  if (name) {
+    return BUILDERS.find((adapter) => adapter.name === name)!;
+  }
+  return BUILDERS.find((adapter) => adapter.detect(post))!;
+}
+
+// --- 레이아웃 위치 탐색 ---
+
+/** 요소마다 경로("0", "0.1.2": 단계별 index)를 붙여 반환한다 */
+export function describeLayout(nodes: LayoutNode[], prefix = ""): (LayoutNode & { path: string })[] {
+  return nodes.map((node, index) => {
+    const path = prefix ? `${prefix}.${index}` : String(index);
+    const { children, ...rest } = node;
+    return children ? { path, ...rest, children: describeLayout(children, path) } : { path, ...rest };
+  });
+}
+
+export interface LayoutLocation {
+  /** 요소가 들어 있는 형제 배열 (편집 시 직접 변경) */
+  siblings: LayoutNode[];
+  index: number;
+}
+
+/** 경로로 요소 위치를 찾는다. 찾지 못하면 오류를 던진다 */
+export function locateNode(layout: LayoutNode[], path: string): LayoutLocation {
+  const indexes = path.split(".").map((part) => Number(part));
+  if (indexes.some((index) => !Number.isInteger(index) || index < 0)) {
+    throw new Error(`경로 형식이 잘못되었습니다: "${path}" (예: 0, 0.1.2)`);
+  }
+  let siblings = layout;
+  for (let depth = 0; depth < indexes.length; depth++) {
+    const index = indexes[depth];
+    if (index >= siblings.length) {
+      throw new Error(`경로 "${path}"의 요소를 찾을 수 없습니다. (${depth + 1}단계 요소 수: ${siblings.length})`);
+    }
+    if (depth === indexes.length - 1) {
+      return { siblings, index };
+    }
+    const children = siblings[index].children;
+    if (!children) {
+      throw new Error(`경로 "${path}"의 ${depth + 1}단계 요소(${siblings[index].type})에는 하위 요소가 없습니다.`);
+    }
+    siblings = children;
+  }
+  throw new Error(`경로 형식이 잘못되었습니다: "${path}"`);
+}
+
+/** 하위 요소를 넣을 배열. parentPath를 생략하면 최상위 */
+export function childrenAt(layout: LayoutNode[], parentPath?: string): LayoutNode[] {
+  if (parentPath === undefined) return layout;
+  const { siblings, index } = locateNode(layout, parentPath);
+  const parent = siblings[index];
+  if (parent.content !== undefined) {
+    throw new Error(`경로 "${parentPath}"의 요소(${parent.type})는 내용을 가진 요소라 하위 요소를 넣을 수 없습니다.`);
+  }
+  parent.children ??= [];
+  return parent.children;
+}
@@ -1,37 +1,311 @@
 import "dotenv/config";
+import { readFileSync } from "node:fs";
+import { parseStyleRules, type StyleRule } from "./markdown.js";
 
-export interface Config {
+/** WordPress API 호출 정책 (타임아웃, 재시도, 동시 요청 제한) */
+export interface RequestPolicy {
+  /** 요청 1회의 제한 시간 (ms) */
+  timeoutMs: number;
+  /** 실패 시 최대 재시도 횟수 (0이면 재시도 안 함) */
+  maxRetries: number;
+  /** 지수 백오프의 기준 지연 시간 (ms) */
+  retryBaseDelayMs: number;
+  /** 사이트별 동시 요청 수 상한 */
+  maxConcurrency: number;
+}
+
+/** HTTP 전송 세션 수명 정책 */
+export interface SessionPolicy {
+  /** 이 시간 동안 활동이 없으면 세션을 닫는다 (ms) */
+  idleTtlMs: number;
+  /** 동시에 유지할 수 있는 세션 수 상한 (Streamable HTTP + 레거시 SSE 합계) */
+  maxSessions: number;
+  /** 종료 신호를 받은 뒤 처리 중인 요청을 기다리는 최대 시간 (ms) */
+  shutdownTimeoutMs: number;
+}
+
+/** 실행 전에 사람의 승인을 받아야 하는 작업 (MCP_APPROVAL_RULES) */
+export interface ApprovalPolicy {
+  /** force: true 호출 (영구 삭제) */
+  forceDelete: boolean;
+  /** status: "publish" 지정 (발행) */
+  publish: boolean;
+  /** 발행 후 이 일수가 지난 게시글/페이지의 수정·삭제 (undefined면 검사하지 않음) */
+  oldPostDays?: number;
+}
+
+export type SiteAuth =
+  | { type: "basic"; username: string; password: string }
+  | { type: "bearer"; token: string };
+
+/** WordPress 사이트 하나의 접속 설정 */
+export interface SiteConfig {
+  /** 도구의 site 인자로 사용하는 사이트 이름 */
+  name: string;
   baseUrl: string;
-  auth:
-    | { type: "basic"; username: string; password: string }
-    | { type: "bearer"; token: string };
-  ssePort: number;
+  /** 서버에 설정된 공용 계정. MCP_ALLOW_SHARED_CREDENTIALS=false이면 생략할 수 있다 */
+  auth?: SiteAuth;
   /** true이면 자체 서명 인증서 등 TLS 검증 실패를 무시한다 */
   tlsRejectUnauthorized: boolean;
+  requestPolicy: RequestPolicy;
 }
 
-export function loadConfig(): Config {
-  const baseUrl = process.env.WORDPRESS_BASE_URL;
-  if (!baseUrl) {
-    throw new Error("WORDPRESS_BASE_URL 환경 변수가 설정되지 않았습니다.");
-  }
+/** HTTP 전송(/mcp, /sse, /messages) 접근 권한 */
+export type Scope = "read" | "write" | "delete" | "approve" | "admin";
+
+export const ALL_SCOPES: Scope[] = ["read", "write", "delete", "approve", "admin"];
+
+/** 정적 API 키 하나와 허용 scope */
+export interface ApiKeyConfig {
+  name: string;
+  key: string;
+  scopes: Scope[];
+}
+
+/** JWT/OAuth Bearer 토큰 검증 설정. secret(HS256) 또는 jwksUrl 중 하나를 사용한다 */
+export interface JwtConfig {
+  secret?: string;
+  jwksUrl?: string;
+  issuer?: string;
+  audience?: string;
+  /** 토큰에 scope 클레임이 없을 때 부여할 scope */
+  defaultScopes: Scope[];
+}
+
+/** HTTP 전송 인바운드 인증. API 키와 JWT가 모두 없으면 인증을 사용하지 않는다 */
+export interface HttpAuthConfig {
+  apiKeys: ApiKeyConfig[];
+  jwt?: JwtConfig;
+}
 
-  const token = process.env.WORDPRESS_TOKEN;
-  const username = process.env.WORDPRESS_USERNAME;
-  const appPassword = process.env.WORDPRESS_APP_PASSWORD;
+/** uploadMedia의 filePath/url 출처 제한 */
+export interface MediaPolicy {
+  /** filePath로 읽을 수 있는 디렉터리 (MEDIA_UPLOAD_DIR). 없으면 filePath를 사용할 수 없다 */
+  uploadDir?: string;
+  /** url 다운로드 제한 시간 */
+  downloadTimeoutMs: number;
+  /** url 다운로드 최대 크기 (바이트) */
+  maxDownloadBytes: number;
+}
 
-  let auth: Config["auth"];
+export interface Config {
+  sites: SiteConfig[];
+  /** site 인자를 생략했을 때 사용할 사이트 이름 */
+  defaultSite: string;
+  ssePort: number;
+  /** HTTP 요청 본문 최대 크기 (바이트). uploadMedia의 base64 data가 이 안에 들어가야 한다 */
+  maxRequestBytes: number;
+  /** format=markdown|blocks 변환 시 기본으로 적용할 스타일 규칙 */
+  markdownStyleRules: StyleRule[];
+  httpAuth: HttpAuthConfig;
+  sessionPolicy: SessionPolicy;
+  /** HTTP 세션이 자체 WordPress 자격 증명을 보내지 않았을 때 서버에 설정된 계정을 대신 사용할지 여부 */
+  allowSharedCredentials: boolean;
+  /** true이면 모든 쓰기 도구를 dryRun으로 실행한다 (사이트에 쓰지 않고 보낼 요청만 반환) */
+  dryRun: boolean;
+  approvalPolicy: ApprovalPolicy;
+  mediaPolicy: MediaPolicy;
+}
 
+/** WORDPRESS_SITES_FILE JSON의 사이트 항목 */
+interface SiteFileEntry {
+  name?: string;
+  baseUrl?: string;
+  username?: string;
+  appPassword?: string;
+  token?: string;
+  tlsRejectUnauthorized?: boolean;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  maxConcurrency?: number;
+}
+
+function intEnv(name: string, defaultValue: number, min: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return defaultValue;
+  const value = parseInt(raw, 10);
+  if (Number.isNaN(value) || value < min) {
+    throw new Error(`${name} 환경 변수는 ${min} 이상의 정수여야 합니다. (현재: ${raw})`);
+  }
+  return value;
+}
+
+function resolveAuth(
+  site: string,
+  token: string | undefined,
+  username: string | undefined,
+  appPassword: string | undefined,
+  hint: string,
+  required: boolean
+): SiteAuth | undefined {
   if (token) {
-    auth = { type: "bearer", token };
-  } else if (username && appPassword) {
-    auth = { type: "basic", username, password: appPassword };
-  } else {
+    return { type: "bearer", token };
+  }
+  if (username && appPassword) {
+    return { type: "basic", username, password: appPassword };
+  }
+  if (!required) {
+    // 공용 계정을 쓰지 않는 HTTP 모드: 세션마다 자격 증명을 받는다
+    return undefined;
+  }
+  throw new Error(`[${site}] 인증 정보가 설정되지 않았습니다. ${hint}`);
+}
+
+/** 사이트 이름을 환경 변수 접두사로 변환한다 (blog-a → WORDPRESS_BLOG_A_) */
+function envPrefix(name: string): string {
+  return `WORDPRESS_${name.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}_`;
+}
+
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, "");
+}
+
+/** WORDPRESS_SITES_FILE에서 사이트 목록을 읽는다 */
+function loadSitesFile(path: string, defaults: RequestPolicy, tlsDefault: boolean, authRequired: boolean) {
+  let parsed: { default?: string; sites?: SiteFileEntry[] };
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
     throw new Error(
-      "인증 정보가 설정되지 않았습니다. WORDPRESS_TOKEN 또는 WORDPRESS_USERNAME + WORDPRESS_APP_PASSWORD를 설정하세요."
+      `WORDPRESS_SITES_FILE을 읽을 수 없습니다 (${path}): ${err instanceof Error ? err.message : String(err)}`
     );
   }
+  if (!Array.isArray(parsed.sites) || parsed.sites.length === 0) {
+    throw new Error(`WORDPRESS_SITES_FILE에 sites 배열이 없습니다 (${path}).`);
+  }
+
+  const sites = parsed.sites.map((entry, index): SiteConfig => {
+    if (!entry.name || !entry.baseUrl) {
+      throw new Error(`WORDPRESS_SITES_FILE의 sites[${index}]에 name과 baseUrl이 필요합니다.`);
+    }
+    return {
+      name: entry.name,
+      baseUrl: normalizeBaseUrl(entry.baseUrl),
+      auth: resolveAuth(
+        entry.name,
+        entry.token,
+        entry.username,
+        entry.appPassword,
+        "token 또는 username + appPassword를 지정하세요.",
+        authRequired
+      ),
+      tlsRejectUnauthorized: entry.tlsRejectUnauthorized ?? tlsDefault,
+      requestPolicy: {
+        timeoutMs: entry.timeoutMs ?? defaults.timeoutMs,
+        maxRetries: entry.maxRetries ?? defaults.maxRetries,
+        retryBaseDelayMs: entry.retryBaseDelayMs ?? defaults.retryBaseDelayMs,
+        maxConcurrency: entry.maxConcurrency ?? defaults.maxConcurrency,
+      },
+    };
+  });
+  return { sites, defaultSite: parsed.default };
+}
+
+/** WORDPRESS_SITES=a,b 목록과 사이트별 WORDPRESS_<NAME>_* 환경 변수에서 사이트 목록을 읽는다 */
+function loadSitesFromEnv(
+  names: string[],
+  defaults: RequestPolicy,
+  tlsDefault: boolean,
+  authRequired: boolean
+): SiteConfig[] {
+  return names.map((name) => {
+    const prefix = envPrefix(name);
+    const baseUrl = process.env[`${prefix}BASE_URL`];
+    if (!baseUrl) {
+      throw new Error(`${prefix}BASE_URL 환경 변수가 설정되지 않았습니다.`);
+    }
+    const tls = process.env[`${prefix}TLS_REJECT_UNAUTHORIZED`];
+    return {
+      name,
+      baseUrl: normalizeBaseUrl(baseUrl),
+      auth: resolveAuth(
+        name,
+        process.env[`${prefix}TOKEN`],
+        process.env[`${prefix}USERNAME`],
+        process.env[`${prefix}APP_PASSWORD`],
+        `${prefix}TOKEN 또는 ${prefix}USERNAME + ${prefix}APP_PASSWORD를 설정하세요.`,
+        authRequired
+      ),
+      tlsRejectUnauthorized: tls === undefined ? tlsDefault : tls !== "false",
+      requestPolicy: defaults,
+    };
+  });
+}
+
+function parseScopes(raw: string | undefined, source: string, fallback: Scope[]): Scope[] {
+  if (!raw) return fallback;
+  const scopes = raw.split(/[+\s]+/).filter(Boolean);
+  for (const scope of scopes) {
+    if (!ALL_SCOPES.includes(scope as Scope)) {
+      throw new Error(`${source}: 알 수 없는 scope "${scope}" (사용 가능: ${ALL_SCOPES.join(", ")})`);
+    }
+  }
+  return scopes as Scope[];
+}
+
+/** scope를 생략한 API 키의 권한. 승인(approve)과 사용자 관리(admin)는 필요한 키에만 명시적으로 부여한다 */
+const DEFAULT_KEY_SCOPES: Scope[] = ["read", "write", "delete"];
+
+/** MCP_API_KEYS=name:key[:scope+scope],... 형식을 파싱한다 (scope 생략 시 read+write+delete) */
+function parseApiKeys(raw: string | undefined): ApiKeyConfig[] {
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, key, scopes] = entry.split(":");
+      if (!name || !key) {
+        throw new Error(`MCP_API_KEYS 형식 오류: "${name}:..." (name:key[:scope+scope] 형식이어야 합니다)`);
+      }
+      return { name, key, scopes: parseScopes(scopes, `MCP_API_KEYS(${name})`, DEFAULT_KEY_SCOPES) };
+    });
+}
+
+function loadHttpAuth(): HttpAuthConfig {
+  const apiKeys = parseApiKeys(process.env.MCP_API_KEYS);
+  const secret = process.env.MCP_JWT_SECRET;
+  const jwksUrl = process.env.MCP_JWT_JWKS_URL;
+  if (!secret && !jwksUrl) {
+    return { apiKeys };
+  }
+  return {
+    apiKeys,
+    jwt: {
+      secret,
+      jwksUrl,
+      issuer: process.env.MCP_JWT_ISSUER,
+      audience: process.env.MCP_JWT_AUDIENCE,
+      defaultScopes: parseScopes(process.env.MCP_JWT_DEFAULT_SCOPES, "MCP_JWT_DEFAULT_SCOPES", ["read"]),
+    },
+  };
+}
+
+/** MCP_APPROVAL_RULES=force_delete,publish,old_posts[:일수] 형식을 파싱한다 (old_posts 기본값: 365일) */
+function parseApprovalRules(raw: string | undefined): ApprovalPolicy {
+  const policy: ApprovalPolicy = { forceDelete: false, publish: false };
+  if (!raw) return policy;
+  for (const entry of raw.split(",").map((rule) => rule.trim()).filter(Boolean)) {
+    const [rule, value] = entry.split(":");
+    if (rule === "force_delete") {
+      policy.forceDelete = true;
+    } else if (rule === "publish") {
+      policy.publish = true;
+    } else if (rule === "old_posts") {
+      const days = value === undefined ? 365 : Number(value);
+      if (!Number.isInteger(days) || days < 0) {
+        throw new Error(`MCP_APPROVAL_RULES: old_posts 일수는 0 이상의 정수여야 합니다 ("${entry}")`);
+      }
+      policy.oldPostDays = days;
+    } else {
+      throw new Error(`MCP_APPROVAL_RULES: 알 수 없는 규칙 "${rule}" (사용 가능: force_delete, publish, old_posts[:일수])`);
+    }
+  }
+  return policy;
+}
 
+export function loadConfig(): Config {
   const ssePort = parseInt(process.env.SSE_PORT || "3000", 10);
 
   // NODE_TLS_REJECT_UNAUTHORIZED=0 또는 WORDPRESS_TLS_REJECT_UNAUTHORIZED=false 일 때 TLS 검증 비활성화
@@ -39,5 +313,98 @@ export function loadConfig(): Config {
     process.env.WORDPRESS_TLS_REJECT_UNAUTHORIZED !== "false" &&
     process.env.NODE_TLS_REJECT_UNAUTHORIZED !== "0";
 
-  return { baseUrl: baseUrl.replace(/\/+$/, ""), auth, ssePort, tlsRejectUnauthorized };
+  const markdownStyleRules = process.env.MARKDOWN_STYLE_RULES
+    ? parseStyleRules(process.env.MARKDOWN_STYLE_RULES)
+    : [];
+
+  const requestPolicy: RequestPolicy = {
+    timeoutMs: intEnv("WORDPRESS_TIMEOUT_MS", 30000, 1),
+    maxRetries: intEnv("WORDPRESS_MAX_RETRIES", 3, 0),
+    retryBaseDelayMs: intEnv("WORDPRESS_RETRY_BASE_DELAY_MS", 500, 0),
+    maxConcurrency: intEnv("WORDPRESS_MAX_CONCURRENCY", 4, 1),
+  };
+
+  // false이면 HTTP 세션마다 자체 WordPress 자격 증명을 요구하며, 사이트의 공용 계정 설정은 생략할 수 있다
+  const allowSharedCredentials = process.env.MCP_ALLOW_SHARED_CREDENTIALS !== "false";
+
+  let sites: SiteConfig[];
+  let defaultSite = process.env.WORDPRESS_DEFAULT_SITE;
+
+  if (process.env.WORDPRESS_SITES_FILE) {
+    const loaded = loadSitesFile(
+      process.env.WORDPRESS_SITES_FILE,
+      requestPolicy,
+      tlsRejectUnauthorized,
+      allowSharedCredentials
+    );
+    sites = loaded.sites;
+    defaultSite = defaultSite ?? loaded.defaultSite;
+  } else if (process.env.WORDPRESS_SITES) {
+    const names = process.env.WORDPRESS_SITES.split(",").map((n) => n.trim()).filter(Boolean);
+    sites = loadSitesFromEnv(names, requestPolicy, tlsRejectUnauthorized, allowSharedCredentials);
+  } else {
+    // 단일 사이트 설정 (WORDPRESS_BASE_URL)
+    const baseUrl = process.env.WORDPRESS_BASE_URL;
+    if (!baseUrl) {
+      throw new Error(
+        "WORDPRESS_BASE_URL 환경 변수가 설정되지 않았습니다. (여러 사이트는 WORDPRESS_SITES 또는 WORDPRESS_SITES_FILE 사용)"
+      );
+    }
+    const name = process.env.WORDPRESS_SITE_NAME || "default";
+    sites = [
+      {
+        name,
+        baseUrl: normalizeBaseUrl(baseUrl),
+        auth: resolveAuth(
+          name,
+          process.env.WORDPRESS_TOKEN,
+          process.env.WORDPRESS_USERNAME,
+          process.env.WORDPRESS_APP_PASSWORD,
+          "WORDPRESS_TOKEN 또는 WORDPRESS_USERNAME + WORDPRESS_APP_PASSWORD를 설정하세요.",
+          allowSharedCredentials
+        ),
+        tlsRejectUnauthorized,
+        requestPolicy,
+      },
+    ];
+  }
+
+  const names = new Set<string>();
+  for (const site of sites) {
+    if (names.has(site.name)) {
+      throw new Error(`사이트 이름이 중복되었습니다: ${site.name}`);
+    }
+    names.add(site.name);
+  }
+
+  defaultSite = defaultSite ?? sites[0].name;
+  if (!names.has(defaultSite)) {
+    throw new Error(`기본 사이트 "${defaultSite}"가 사이트 목록에 없습니다.`);
+  }
+
+  const maxDownloadBytes = intEnv("MEDIA_MAX_DOWNLOAD_BYTES", 50 * 1024 * 1024, 1);
+  // 기본값은 MEDIA_MAX_DOWNLOAD_BYTES 크기의 파일을 base64(4/3배)로 보내고 JSON-RPC 여유분(1 MiB)을 더한 크기
+  const maxRequestBytes = intEnv("MCP_MAX_REQUEST_BYTES", Math.ceil((maxDownloadBytes * 4) / 3) + 1024 * 1024, 1);
+
+  return {
+    sites,
+    defaultSite,
+    ssePort,
+    maxRequestBytes,
+    markdownStyleRules,
+    httpAuth: loadHttpAuth(),
+    sessionPolicy: {
+      idleTtlMs: intEnv("MCP_SESSION_IDLE_TTL_MS", 30 * 60 * 1000, 1000),
+      maxSessions: intEnv("MCP_MAX_SESSIONS", 100, 1),
+      shutdownTimeoutMs: intEnv("MCP_SHUTDOWN_TIMEOUT_MS", 30000, 0),
+    },
+    allowSharedCredentials,
+    dryRun: process.env.WORDPRESS_DRY_RUN === "true",
+    approvalPolicy: parseApprovalRules(process.env.MCP_APPROVAL_RULES),
+    mediaPolicy: {
+      uploadDir: process.env.MEDIA_UPLOAD_DIR || undefined,
+      downloadTimeoutMs: intEnv("MEDIA_DOWNLOAD_TIMEOUT_MS", 30000, 1),
+      maxDownloadBytes,
+    },
+  };
 }
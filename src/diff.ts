@@ -0,0 +1,127 @@
+/**
+ * 줄 단위 텍스트 비교. 리비전 비교 결과를 unified diff 형식(---/+++/@@)으로 만든다.
+ */
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+export interface TextDiff {
+  /** 변경이 없으면 빈 문자열 */
+  diff: string;
+  added: number;
+  removed: number;
+}
+
+/**
+ * LCS 표 크기 상한 (칸당 4바이트, 호출당 최대 약 8MB). 동시 세션의 비교가 겹쳐도 메모리가 커지지 않도록 작게 둔다.
+ * 넘으면 가운데 구간 전체를 삭제 후 추가로 처리한다
+ */
+const MAX_LCS_CELLS = 2_000_000;
+
+/** 공통 앞/뒤 줄을 제외한 구간에 LCS를 적용하여 편집 목록을 만든다 */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffOp[] = a.slice(0, start).map((line) => ({ type: " ", line }));
+  const tail: DiffOp[] = a.slice(endA).map((line) => ({ type: " ", line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map((line): DiffOp => ({ type: "-", line })),
+      ...midB.map((line): DiffOp => ({ type: "+", line })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = midA[i..], midB[j..]의 최장 공통 부분 수열 길이
+  const n = midA.length;
+  const m = midB.length;
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[at(i, j)] =
+        midA[i] === midB[j] ? lcs[at(i + 1, j + 1)] + 1 : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: " ", line: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[at(i + 1, j)] >= lcs[at(i, j + 1)]) {
+      middle.push({ type: "-", line: midA[i++] });
+    } else {
+      middle.push({ type: "+", line: midB[j++] });
+    }
+  }
+  while (i < n) middle.push({ type: "-", line: midA[i++] });
+  while (j < m) middle.push({ type: "+", line: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+/** 두 텍스트를 줄 단위로 비교하여 unified diff를 만든다 */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  labels: { from: string; to: string },
+  context = 3
+): TextDiff {
+  const ops = diffLines(oldText.split("\n"), newText.split("\n"));
+  const added = ops.filter((op) => op.type === "+").length;
+  const removed = ops.filter((op) => op.type === "-").length;
+  if (added === 0 && removed === 0) {
+    return { diff: "", added, removed };
+  }
+
+  // 변경 줄 앞뒤 context줄을 포함하는 구간을 묶어 hunk를 만든다
+  const lines = [`--- ${labels.from}`, `+++ ${labels.to}`];
+  let index = 0;
+  while (index < ops.length) {
+    const firstChange = ops.findIndex((op, k) => k >= index && op.type !== " ");
+    if (firstChange === -1) break;
+
+    const hunkStart = Math.max(index, firstChange - context);
+    let hunkEnd = firstChange;
+    let unchangedRun = 0;
+    for (let k = firstChange; k < ops.length; k++) {
+      if (ops[k].type === " ") {
+        unchangedRun++;
+        if (unchangedRun > context * 2) break;
+      } else {
+        unchangedRun = 0;
+        hunkEnd = k;
+      }
+    }
+    const stop = Math.min(ops.length, hunkEnd + context + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < hunkStart; k++) {
+      if (ops[k].type !== "+") oldLine++;
+      if (ops[k].type !== "-") newLine++;
+    }
+    const hunk = ops.slice(hunkStart, stop);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    lines.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+    lines.push(...hunk.map((op) => `${op.type}${op.line}`));
+    index = stop;
+  }
+
+  return { diff: lines.join("\n"), added, removed };
+}
@@ -0,0 +1,141 @@
+/**
+ * dryRun 모드. 도구 호출을 dryRun 컨텍스트 안에서 실행하면 WordPressClient가 쓰기 요청(POST/PUT/PATCH/DELETE)을
+ * 보내지 않고 기록한 뒤, 요청이 성공했다고 가정한 가상 응답을 돌려준다. 조회 요청은 그대로 보내므로
+ * term 이름 해석, meta 스키마 검증 같은 입력 검증과 참조 확인은 실제 호출과 같이 수행된다.
+ * 컨텍스트는 AsyncLocalStorage로 전달하므로 같은 세션의 다른 도구 호출에는 영향을 주지 않는다.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export const WRITE_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/** 현재 값과 다른 필드 (meta/acf 같은 객체 필드는 "meta.key"로 표시) */
+export interface FieldChange {
+  field: string;
+  current: unknown;
+  proposed: unknown;
+}
+
+/** 보내지 않은 쓰기 요청 */
+export interface PlannedRequest {
+  method: string;
+  /** /wp-json 이하 경로 */
+  path: string;
+  query?: Record<string, string>;
+  body?: unknown;
+  /** 본문이 참조하는 작성자, 대표 이미지, 카테고리, 태그 */
+  references?: Record<string, unknown>;
+  /** 수정 요청: 현재 객체와 다른 필드 */
+  diff?: FieldChange[];
+  /** 삭제 요청: 삭제될 객체 */
+  target?: Record<string, unknown>;
+}
+
+export class DryRunRecorder {
+  readonly requests: PlannedRequest[] = [];
+  /** 실제로 실행하면 실패할 것으로 보이는 문제 (없는 참조, 없는 대상) */
+  readonly problems: string[] = [];
+  private placeholder = 0;
+
+  /** 생성 요청의 가상 ID. 실제 ID와 겹치지 않도록 음수를 쓴다 */
+  nextPlaceholderId(): number {
+    return --this.placeholder;
+  }
+}
+
+const context = new AsyncLocalStorage<DryRunRecorder>();
+
+/** 현재 도구 호출이 dryRun이면 기록기를 반환한다 */
+export function currentDryRun(): DryRunRecorder | undefined {
+  return context.getStore();
+}
+
+export function runDryRun<T>(recorder: DryRunRecorder, fn: () => Promise<T>): Promise<T> {
+  return context.run(recorder, fn);
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** { raw, rendered } 필드는 raw(없으면 rendered)로 비교한다 */
+function comparable(value: unknown): unknown {
+  if (isPlainObject(value) && ("raw" in value || "rendered" in value)) {
+    return value.raw ?? value.rendered;
+  }
+  return value;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  // WordPress는 숫자/불리언 meta를 문자열로 받기도 한다
+  if (["string", "number", "boolean"].includes(typeof a) && ["string", "number", "boolean"].includes(typeof b)) {
+    return String(a) === String(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** 요청 본문의 각 필드를 현재 객체와 비교한다 */
+export function fieldDiff(current: Record<string, unknown>, body: Record<string, unknown>, prefix = ""): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [key, proposed] of Object.entries(body)) {
+    if (proposed === undefined) continue;
+    const field = `${prefix}${key}`;
+    const value = comparable(current[key]);
+    if (isPlainObject(proposed) && isPlainObject(value)) {
+      changes.push(...fieldDiff(value, proposed, `${field}.`));
+    } else if (!same(value, proposed)) {
+      changes.push({ field, current: value ?? null, proposed });
+    }
+  }
+  return changes;
+}
+
+/** 삭제 대상 표시용 요약 */
+export function summarizeItem(item: Record<string, unknown>): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+  for (const key of ["id", "title", "name", "slug", "status", "type", "date", "link", "count", "post", "author_name"]) {
+    if (item[key] !== undefined) summary[key] = comparable(item[key]);
+  }
+  return summary;
+}
+
+/** 문자열 값을 현재 객체의 { raw, rendered } 형식에 맞춘다 (도구가 가상 응답을 평소처럼 읽을 수 있도록) */
+function asResponseFields(body: Record<string, unknown>, current: Record<string, unknown> = {}): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    const wrap =
+      typeof value === "string" &&
+      (["title", "content", "excerpt", "caption", "description"].includes(key) ||
+        (isPlainObject(current[key]) && "rendered" in (current[key] as object)));
+    fields[key] = wrap ? { raw: value, rendered: value } : value;
+  }
+  return fields;
+}
+
+/** 쓰기 요청이 성공했다고 가정한 응답 */
+export function plannedResponse(
+  recorder: DryRunRecorder,
+  method: string,
+  query: Record<string, string>,
+  body: unknown,
+  current: Record<string, unknown> | undefined
+): unknown {
+  const fields = isPlainObject(body) ? body : {};
+  if (method === "DELETE") {
+    const previous = current ?? {};
+    return query.force === "true" ? { deleted: true, previous } : { ...previous, status: "trash" };
+  }
+  if (current) {
+    return { ...current, ...asResponseFields(fields, current) };
+  }
+  return { id: recorder.nextPlaceholderId(), ...asResponseFields(fields) };
+}
+
+/** multipart 본문(미디어 업로드)을 표시용 객체로 바꾼다 */
+export function describeFormData(form: FormData): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of form.entries()) {
+    fields[key] = typeof value === "string" ? value : { name: value.name, type: value.type, size: value.size };
+  }
+  return fields;
+}
@@ -0,0 +1,134 @@
+/** WordPress REST API 오류 응답 본문 ({ code, message, data: { status, params, details } }) */
+interface WordPressErrorBody {
+  code?: string;
+  message?: string;
+  data?: {
+    status?: number;
+    params?: Record<string, string>;
+    details?: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+}
+
+/** 응답을 받지 못한 경우(네트워크 오류, 타임아웃)의 status 값 */
+export const NETWORK_ERROR_STATUS = 0;
+
+/**
+ * WordPress REST API 오류. HTTP status와 WordPress 오류 code, 파라미터 검증 상세를 보존하여
+ * 에이전트가 잘못된 파라미터 / 권한 부족 / 사이트 장애를 구분하고 대응할 수 있게 한다.
+ */
+export class WordPressApiError extends Error {
+  readonly status: number;
+  /** WordPress 오류 코드 (예: rest_post_invalid_id, rest_cannot_create) */
+  readonly code: string;
+  /** 잘못된 파라미터별 오류 메시지 (rest_invalid_param) */
+  readonly params?: Record<string, string>;
+  readonly details?: Record<string, unknown>;
+  readonly method: string;
+  readonly path: string;
+
+  constructor(options: {
+    status: number;
+    code: string;
+    message: string;
+    method: string;
+    path: string;
+    params?: Record<string, string>;
+    details?: Record<string, unknown>;
+  }) {
+    super(options.message);
+    this.name = "WordPressApiError";
+    this.status = options.status;
+    this.code = options.code;
+    this.params = options.params;
+    this.details = options.details;
+    this.method = options.method;
+    this.path = options.path;
+  }
+
+  /** 오류 응답 본문을 파싱하여 생성한다. JSON이 아니면 본문 텍스트를 메시지로 사용한다 */
+  static fromResponse(status: number, body: string, method: string, path: string): WordPressApiError {
+    let parsed: WordPressErrorBody = {};
+    try {
+      parsed = JSON.parse(body) ?? {};
+    } catch {
+      // HTML 오류 페이지 등
+    }
+    return new WordPressApiError({
+      status,
+      code: parsed.code ?? `http_${status}`,
+      message: parsed.message || body.slice(0, 500) || `HTTP ${status}`,
+      method,
+      path,
+      params: parsed.data?.params,
+      details: parsed.data?.details,
+    });
+  }
+
+  static network(reason: string, code: "http_request_failed" | "http_request_timeout", method: string, path: string) {
+    return new WordPressApiError({
+      status: NETWORK_ERROR_STATUS,
+      code,
+      message: reason,
+      method,
+      path,
+    });
+  }
+
+  /** 같은 요청을 나중에 다시 보내면 성공할 수 있는 오류인지 여부 */
+  get retryable(): boolean {
+    return (
+      this.status === NETWORK_ERROR_STATUS ||
+      this.status === 408 ||
+      this.status === 429 ||
+      this.status >= 500
+    );
+  }
+
+  /** 에이전트가 다음 행동을 정할 수 있도록 오류 유형별 안내를 반환한다 */
+  get hint(): string {
+    if (this.status === NETWORK_ERROR_STATUS) {
+      return "WordPress 사이트에 연결하지 못했습니다. 사이트 상태를 확인하거나 잠시 후 다시 시도하세요.";
+    }
+    if (this.code === "rest_invalid_param" || this.code === "rest_missing_callback_param") {
+      const fields = Object.keys(this.params ?? {});
+      return fields.length > 0
+        ? `잘못된 파라미터: ${fields.join(", ")}. params의 설명을 참고하여 값을 수정하세요.`
+        : "필수 파라미터가 없거나 값이 잘못되었습니다. 입력값을 수정하세요.";
+    }
+    switch (this.status) {
+      case 400:
+        return "요청 값이 잘못되었습니다. 입력값을 수정한 뒤 다시 호출하세요.";
+      case 401:
+        return "인증에 실패했습니다. 사용자명/애플리케이션 비밀번호 또는 토큰을 확인하세요.";
+      case 403:
+        return "현재 계정에 이 작업 권한이 없습니다. 다른 작업을 선택하거나 관리자에게 권한을 요청하세요.";
+      case 404:
+        return this.code === "rest_no_route"
+          ? "REST 경로가 없습니다. 플러그인 활성화 여부나 리소스 이름을 확인하세요."
+          : "대상을 찾을 수 없습니다. 목록 도구로 ID를 다시 확인하세요.";
+      case 409:
+      case 410:
+        return "대상이 이미 변경되었거나 삭제되었습니다. 현재 상태를 다시 조회하세요.";
+      case 429:
+        return "요청 한도를 초과했습니다. 잠시 후 다시 시도하세요.";
+      default:
+        return this.status >= 500
+          ? "WordPress 서버 오류입니다. 잠시 후 다시 시도하세요."
+          : "요청이 거부되었습니다. message를 확인하세요.";
+    }
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      status: this.status,
+      params: this.params,
+      details: this.details,
+      retryable: this.retryable,
+      hint: this.hint,
+      request: `${this.method} ${this.path}`,
+    };
+  }
+}
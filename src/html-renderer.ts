@@ -0,0 +1,334 @@
+/**
+ * WordPress가 렌더링한 HTML을 에이전트가 읽기 쉬운 텍스트/Markdown으로 변환한다.
+ * 엔티티를 디코딩하고 문단, 제목, 목록, 링크, 표, 코드 블록 구조를 유지한다.
+ */
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+type RenderMode = "text" | "markdown";
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+const SKIPPED_ELEMENTS = new Set(["script", "style", "noscript", "template", "svg", "iframe"]);
+
+const BLOCK_ELEMENTS = new Set([
+  "address", "article", "aside", "blockquote", "dd", "details", "div", "dl", "dt", "figcaption",
+  "figure", "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "li", "main",
+  "nav", "ol", "p", "pre", "section", "summary", "table", "ul",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  hellip: "…", mdash: "—", ndash: "–", lsquo: "‘", rsquo: "’", sbquo: "‚",
+  ldquo: "“", rdquo: "”", bdquo: "„", laquo: "«", raquo: "»", lsaquo: "‹", rsaquo: "›",
+  bull: "•", middot: "·", prime: "′", Prime: "″", copy: "©", reg: "®", trade: "™",
+  deg: "°", plusmn: "±", times: "×", divide: "÷", micro: "µ", para: "¶", sect: "§",
+  euro: "€", pound: "£", yen: "¥", cent: "¢", larr: "←", rarr: "→", uarr: "↑", darr: "↓",
+  harr: "↔", frac12: "½", frac14: "¼", frac34: "¾", sup2: "²", sup3: "³", shy: "­",
+  ensp: " ", emsp: " ", thinsp: " ", zwj: "‍", zwnj: "‌",
+  iexcl: "¡", iquest: "¿", hearts: "♥", check: "✓",
+};
+
+/** HTML 엔티티(&#8217;, &#x2019;, &nbsp; 등)를 문자로 디코딩한다 */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+/** 관대한 HTML 트리 파서. 닫히지 않은 태그나 생략된 </p>, </li>도 처리한다 */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const tokenizer = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/([a-z][a-z0-9-]*)\s*>|<([a-z][a-z0-9-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/gi;
+  const top = () => stack[stack.length - 1];
+  const closeTo = (tag: string, boundary: string[] = []) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (boundary.includes(stack[i].tag)) return;
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  let offset = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tokenizer.exec(html))) {
+    if (match.index > offset) {
+      top().children.push(html.slice(offset, match.index));
+    }
+    offset = tokenizer.lastIndex;
+
+    const [, closeTag, openTag, attrSource] = match;
+    if (closeTag) {
+      closeTo(closeTag.toLowerCase());
+      continue;
+    }
+    if (!openTag) {
+      continue; // 주석, 블록 구분자(<!-- wp:... -->), doctype
+    }
+
+    const tag = openTag.toLowerCase();
+    if (BLOCK_ELEMENTS.has(tag) && top().tag === "p") {
+      stack.pop();
+    }
+    if (tag === "li") closeTo("li", ["ul", "ol"]);
+    if (tag === "dt" || tag === "dd") {
+      closeTo("dt", ["dl"]);
+      closeTo("dd", ["dl"]);
+    }
+    if (tag === "tr") closeTo("tr", ["table", "thead", "tbody", "tfoot"]);
+    if (tag === "td" || tag === "th") {
+      closeTo("td", ["tr", "table"]);
+      closeTo("th", ["tr", "table"]);
+    }
+
+    const element: HtmlElement = { tag, attrs: parseAttributes(attrSource), children: [] };
+    top().children.push(element);
+
+    if (SKIPPED_ELEMENTS.has(tag) || tag === "pre" || tag === "textarea") {
+      // 원문 텍스트를 그대로 보관해야 하는 요소: 닫는 태그까지 한 번에 읽는다
+      const end = html.toLowerCase().indexOf(`</${tag}`, offset);
+      const rawEnd = end === -1 ? html.length : end;
+      if (tag === "pre") {
+        element.children = parseHtml(html.slice(offset, rawEnd)).children;
+      } else if (!SKIPPED_ELEMENTS.has(tag)) {
+        element.children = [html.slice(offset, rawEnd)];
+      }
+      const close = html.indexOf(">", rawEnd);
+      offset = end === -1 || close === -1 ? html.length : close + 1;
+      tokenizer.lastIndex = offset;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && !attrSource.trim().endsWith("/")) {
+      stack.push(element);
+    }
+  }
+  if (offset < html.length) {
+    top().children.push(html.slice(offset));
+  }
+  return root;
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === "string") return decodeEntities(node);
+  return node.children.map(textContent).join("");
+}
+
+/**
+ * 공백 정리 단계에서 지워지면 안 되는 공백(코드 블록 내용, 목록 들여쓰기)을
+ * 제어 문자로 바꿔 두었다가 render() 마지막에 되돌린다
+ */
+function preserve(text: string): string {
+  return text.replace(/ /g, "\u0001").replace(/\t/g, "\u0002").replace(/\n/g, "\u0003");
+}
+
+class HtmlRenderer {
+  constructor(private mode: RenderMode) {}
+
+  render(html: string): string {
+    return this.children(parseHtml(html))
+      .replace(/ {2,}/g, " ")
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n[ \t]+/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .replace(/\u0001/g, " ")
+      .replace(/\u0002/g, "\t")
+      .replace(/\u0003/g, "\n")
+      .trim();
+  }
+
+  private children(element: HtmlElement): string {
+    return element.children.map((child) => this.node(child)).join("");
+  }
+
+  private block(content: string): string {
+    const trimmed = content.trim();
+    return trimmed ? `\n\n${trimmed}\n\n` : "";
+  }
+
+  private node(node: HtmlNode): string {
+    if (typeof node === "string") {
+      return decodeEntities(node).replace(/\s+/g, " ");
+    }
+
+    const md = this.mode === "markdown";
+    const inline = () => this.children(node).replace(/\s*\n+\s*/g, " ").trim();
+
+    switch (node.tag) {
+      case "script":
+      case "style":
+      case "noscript":
+      case "template":
+      case "svg":
+      case "iframe":
+        return "";
+      case "br":
+        return "\n";
+      case "hr":
+        return this.block("---");
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6": {
+        const text = inline();
+        return this.block(md ? `${"#".repeat(Number(node.tag[1]))} ${text}` : text);
+      }
+      case "p":
+      case "div":
+      case "section":
+      case "article":
+      case "header":
+      case "footer":
+      case "aside":
+      case "main":
+      case "nav":
+      case "figure":
+      case "figcaption":
+      case "address":
+      case "details":
+      case "summary":
+      case "form":
+      case "dl":
+      case "dt":
+      case "dd":
+        return this.block(this.children(node));
+      case "blockquote": {
+        const inner = this.children(node).trim().replace(/\n{3,}/g, "\n\n");
+        return this.block(inner.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n"));
+      }
+      case "ul":
+      case "ol":
+        return this.list(node);
+      case "pre":
+        return this.pre(node);
+      case "table":
+        return this.table(node);
+      case "a": {
+        const text = inline();
+        const href = node.attrs.href;
+        if (!href || href.startsWith("#") || href.startsWith("javascript:")) return text;
+        if (md) return `[${text || href}](${href})`;
+        return !text || text === href ? href : `${text} (${href})`;
+      }
+      case "img": {
+        const alt = node.attrs.alt ?? "";
+        const src = node.attrs.src ?? "";
+        if (md) return `![${alt}](${src})`;
+        return alt ? `[${alt}]` : "";
+      }
+      case "strong":
+      case "b":
+        return md ? this.wrap(inline(), "**") : this.children(node);
+      case "em":
+      case "i":
+        return md ? this.wrap(inline(), "*") : this.children(node);
+      case "del":
+      case "s":
+      case "strike":
+        return md ? this.wrap(inline(), "~~") : this.children(node);
+      case "code":
+        return md ? this.wrap(textContent(node).replace(/\s+/g, " "), "`") : this.children(node);
+      default:
+        return BLOCK_ELEMENTS.has(node.tag) ? this.block(this.children(node)) : this.children(node);
+    }
+  }
+
+  /** 강조 기호 안쪽 공백을 바깥으로 옮겨 Markdown 문법이 깨지지 않게 한다 */
+  private wrap(text: string, marker: string): string {
+    return text.trim() ? `${marker}${text.trim()}${marker}` : text;
+  }
+
+  private list(element: HtmlElement): string {
+    const ordered = element.tag === "ol";
+    let counter = Number(element.attrs.start) || 1;
+    const items = element.children
+      .filter((child): child is HtmlElement => typeof child !== "string" && child.tag === "li")
+      .map((item) => {
+        const marker = ordered ? `${counter++}.` : "-";
+        const body = this.children(item).trim().replace(/\n{2,}/g, "\n");
+        const indent = preserve(" ".repeat(marker.length + 1));
+        return `${marker} ${body.split("\n").join(`\n${indent}`)}`;
+      });
+    return this.block(items.join("\n"));
+  }
+
+  private pre(element: HtmlElement): string {
+    const text = textContent(element).replace(/^\n/, "").replace(/\s+$/, "");
+    if (this.mode === "text") {
+      return this.block(preserve(text));
+    }
+    const code = element.children.find(
+      (child): child is HtmlElement => typeof child !== "string" && child.tag === "code"
+    );
+    const lang = (code?.attrs.class ?? element.attrs.class ?? "").match(/(?:language|lang)-([\w+-]+)/)?.[1] ?? "";
+    const fence = text.includes("```") ? "~~~" : "```";
+    return `\n\n${fence}${lang}\n${preserve(text)}\n${fence}\n\n`;
+  }
+
+  private table(element: HtmlElement): string {
+    const rows: string[][] = [];
+    const collect = (node: HtmlElement) => {
+      for (const child of node.children) {
+        if (typeof child === "string") continue;
+        if (child.tag === "tr") {
+          rows.push(
+            child.children
+              .filter((c): c is HtmlElement => typeof c !== "string" && (c.tag === "td" || c.tag === "th"))
+              .map((cell) => this.children(cell).replace(/\s*\n+\s*/g, " ").trim().replace(/\|/g, "\\|"))
+          );
+        } else if (child.tag !== "table") {
+          collect(child);
+        }
+      }
+    };
+    collect(element);
+    if (rows.length === 0) return "";
+
+    const width = Math.max(...rows.map((row) => row.length));
+    const lines = rows.map((row) => `| ${[...row, ...Array(width - row.length).fill("")].join(" | ")} |`);
+    if (this.mode === "markdown") {
+      lines.splice(1, 0, `|${" --- |".repeat(width)}`);
+    }
+    return this.block(lines.join("\n"));
+  }
+}
+
+/** HTML을 문단/목록/링크 구조를 유지한 일반 텍스트로 변환한다 */
+export function htmlToText(html: string): string {
+  return new HtmlRenderer("text").render(html);
+}
+
+/** HTML을 Markdown으로 변환한다 */
+export function htmlToMarkdown(html: string): string {
+  return new HtmlRenderer("markdown").render(html);
+}
@@ -0,0 +1,267 @@
+import { Lexer, Parser, Renderer, type Token, type Tokens } from "marked";
+import { z } from "zod";
+
+/**
+ * createPost/updatePost의 content 입력 형식
+ * - html: 그대로 전송
+ * - markdown: Markdown을 HTML로 변환 (클래식 에디터 호환)
+ * - blocks: Markdown을 Gutenberg 블록 마크업(<!-- wp:... -->)으로 변환
+ */
+export type ContentFormat = "html" | "markdown" | "blocks";
+
+/** 스타일 규칙 적용 여부를 판단하는 블록 컨텍스트 */
+export type StyleContext = "list" | "table" | "heading" | "blockquote";
+
+export const styleRuleSchema = z.object({
+  element: z
+    .enum(["strong", "em", "codespan", "del", "link"])
+    .describe("규칙을 적용할 인라인 요소"),
+  template: z
+    .string()
+    .describe('출력 HTML 템플릿. {content}가 요소 내용으로 치환된다 (예: <font color="red">{content}</font>)'),
+  exceptIn: z
+    .array(z.enum(["list", "table", "heading", "blockquote"]))
+    .optional()
+    .describe("이 컨텍스트 안에서는 규칙을 적용하지 않는다"),
+});
+
+export type StyleRule = z.infer<typeof styleRuleSchema>;
+
+export interface MarkdownOptions {
+  styleRules?: StyleRule[];
+}
+
+/** MARKDOWN_STYLE_RULES 같은 JSON 문자열을 검증하여 스타일 규칙 배열로 변환한다 */
+export function parseStyleRules(json: string): StyleRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Markdown 스타일 규칙이 올바른 JSON이 아닙니다.");
+  }
+  const result = z.array(styleRuleSchema).safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Markdown 스타일 규칙 형식 오류: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** 현재 블록 컨텍스트를 추적하면서 스타일 규칙을 적용하는 렌더러 */
+class StyledRenderer extends Renderer {
+  private contexts: StyleContext[] = [];
+
+  constructor(private rules: StyleRule[]) {
+    super();
+  }
+
+  within<T>(context: StyleContext, fn: () => T): T {
+    this.contexts.push(context);
+    try {
+      return fn();
+    } finally {
+      this.contexts.pop();
+    }
+  }
+
+  private styled(element: StyleRule["element"], content: string, fallback: string): string {
+    const rule = this.rules.find(
+      (r) => r.element === element && !r.exceptIn?.some((c) => this.contexts.includes(c))
+    );
+    return rule ? rule.template.split("{content}").join(content) : fallback;
+  }
+
+  override list(token: Tokens.List): string {
+    return this.within("list", () => super.list(token));
+  }
+
+  override table(token: Tokens.Table): string {
+    return this.within("table", () => super.table(token));
+  }
+
+  override heading(token: Tokens.Heading): string {
+    return this.within("heading", () => super.heading(token));
+  }
+
+  override blockquote(token: Tokens.Blockquote): string {
+    return this.within("blockquote", () => super.blockquote(token));
+  }
+
+  override strong(token: Tokens.Strong): string {
+    const content = this.parser.parseInline(token.tokens);
+    return this.styled("strong", content, super.strong(token));
+  }
+
+  override em(token: Tokens.Em): string {
+    const content = this.parser.parseInline(token.tokens);
+    return this.styled("em", content, super.em(token));
+  }
+
+  override codespan(token: Tokens.Codespan): string {
+    return this.styled("codespan", token.text, super.codespan(token));
+  }
+
+  override del(token: Tokens.Del): string {
+    const content = this.parser.parseInline(token.tokens);
+    return this.styled("del", content, super.del(token));
+  }
+
+  override link(token: Tokens.Link): string {
+    const fallback = super.link(token);
+    return this.styled("link", fallback, fallback);
+  }
+}
+
+function createParser(options: MarkdownOptions) {
+  const renderer = new StyledRenderer(options.styleRules ?? []);
+  const parser = new Parser({ gfm: true, renderer });
+  return { renderer, parser };
+}
+
+function lex(markdown: string): Token[] {
+  return Lexer.lex(markdown, { gfm: true });
+}
+
+/** Markdown을 HTML로 변환한다. 펜스 코드 블록은 <pre><code>로 변환된다 */
+export function markdownToHtml(markdown: string, options: MarkdownOptions = {}): string {
+  const { parser } = createParser(options);
+  return parser.parse(lex(markdown)).trim();
+}
+
+function block(name: string, html: string, attrs?: Record<string, unknown>): string {
+  const attrJson = attrs && Object.keys(attrs).length > 0 ? ` ${JSON.stringify(attrs)}` : "";
+  return `<!-- wp:${name}${attrJson} -->\n${html}\n<!-- /wp:${name} -->`;
+}
+
+/** Markdown을 Gutenberg 블록 마크업으로 변환한다 */
+export function markdownToBlocks(markdown: string, options: MarkdownOptions = {}): string {
+  const { renderer, parser } = createParser(options);
+
+  const imageBlock = (image: Tokens.Image): string => {
+    const title = image.title ? ` title="${escapeHtml(image.title)}"` : "";
+    const img = `<img src="${escapeHtml(image.href)}" alt="${escapeHtml(image.text)}"${title}/>`;
+    return block("image", `<figure class="wp-block-image">${img}</figure>`);
+  };
+
+  const listBlock = (list: Tokens.List): string =>
+    renderer.within("list", () => {
+      const tag = list.ordered ? "ol" : "ul";
+      const attrs: Record<string, unknown> = {};
+      if (list.ordered) attrs.ordered = true;
+      if (list.ordered && list.start !== "" && list.start !== 1) attrs.start = list.start;
+      const startAttr = attrs.start !== undefined ? ` start="${attrs.start}"` : "";
+
+      const items = list.items.map((item) => {
+        const nested = item.tokens.filter((t): t is Tokens.List => t.type === "list");
+        const own = item.tokens.filter((t) => t.type !== "list");
+        let body = parser.parse(own, item.loose).trim();
+        if (item.task) {
+          body = `${item.checked ? "☑" : "☐"} ${body}`;
+        }
+        const children = nested.map((n) => `\n${listBlock(n)}\n`).join("");
+        return block("list-item", `<li>${body}${children}</li>`);
+      });
+
+      return block(
+        "list",
+        `<${tag}${startAttr} class="wp-block-list">${items.join("\n")}</${tag}>`,
+        attrs
+      );
+    });
+
+  const toBlocks = (tokens: Token[]): string[] => {
+    const blocks: string[] = [];
+    for (const token of tokens) {
+      switch (token.type) {
+        case "space":
+          break;
+        case "heading": {
+          const { depth } = token as Tokens.Heading;
+          const inner = renderer.within("heading", () =>
+            parser.parseInline((token as Tokens.Heading).tokens)
+          );
+          blocks.push(
+            block(
+              "heading",
+              `<h${depth} class="wp-block-heading">${inner}</h${depth}>`,
+              depth !== 2 ? { level: depth } : undefined
+            )
+          );
+          break;
+        }
+        case "paragraph": {
+          const inline = (token as Tokens.Paragraph).tokens.filter(
+            (t) => !(t.type === "text" && t.raw.trim() === "")
+          );
+          if (inline.length > 0 && inline.every((t) => t.type === "image")) {
+            blocks.push(...inline.map((t) => imageBlock(t as Tokens.Image)));
+          } else {
+            blocks.push(block("paragraph", renderer.paragraph(token as Tokens.Paragraph).trim()));
+          }
+          break;
+        }
+        case "list":
+          blocks.push(listBlock(token as Tokens.List));
+          break;
+        case "code": {
+          const { text, lang } = token as Tokens.Code;
+          const langClass = lang ? ` class="language-${escapeHtml(lang)}"` : "";
+          blocks.push(
+            block("code", `<pre class="wp-block-code"><code${langClass}>${escapeHtml(text)}</code></pre>`)
+          );
+          break;
+        }
+        case "table":
+          blocks.push(
+            block("table", `<figure class="wp-block-table">${renderer.table(token as Tokens.Table).trim()}</figure>`)
+          );
+          break;
+        case "blockquote": {
+          const inner = renderer.within("blockquote", () =>
+            toBlocks((token as Tokens.Blockquote).tokens)
+          );
+          blocks.push(
+            block("quote", `<blockquote class="wp-block-quote">${inner.join("\n\n")}</blockquote>`)
+          );
+          break;
+        }
+        case "hr":
+          blocks.push(
+            block("separator", '<hr class="wp-block-separator has-alpha-channel-opacity"/>')
+          );
+          break;
+        case "html":
+          blocks.push(block("html", (token as Tokens.HTML).text.trim()));
+          break;
+        default:
+          blocks.push(block("html", parser.parse([token]).trim()));
+      }
+    }
+    return blocks;
+  };
+
+  return toBlocks(lex(markdown)).join("\n\n");
+}
+
+/** 입력 형식에 따라 content를 WordPress에 저장할 마크업으로 변환한다 */
+export function convertContent(
+  content: string,
+  format: ContentFormat = "html",
+  options: MarkdownOptions = {}
+): string {
+  switch (format) {
+    case "markdown":
+      return markdownToHtml(content, options);
+    case "blocks":
+      return markdownToBlocks(content, options);
+    default:
+      return content;
+  }
+}
@@ -0,0 +1,256 @@
+import { lookup as dnsLookup, type LookupAddress } from "node:dns";
+import { readFile, realpath } from "node:fs/promises";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import path from "node:path";
+import { Agent } from "undici";
+import type { MediaPolicy } from "./config.js";
+import { logger } from "./logger.js";
+
+/** 업로드할 미디어의 출처. data, filePath, url 중 하나만 지정한다 */
+export interface MediaSource {
+  /** base64 문자열 (data URI 형식 허용) */
+  data?: string;
+  /** 서버 로컬 파일 경로 */
+  filePath?: string;
+  /** 원격 파일 URL */
+  url?: string;
+  /** 업로드될 파일명 (생략 시 출처에서 추론) */
+  filename?: string;
+  /** MIME 타입 (생략 시 확장자/응답 헤더에서 추론) */
+  mimeType?: string;
+}
+
+export interface MediaFile {
+  buffer: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".ico": "image/x-icon",
+  ".bmp": "image/bmp",
+  ".avif": "image/avif",
+  ".heic": "image/heic",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+};
+
+const EXTENSIONS: Record<string, string> = Object.fromEntries(
+  Object.entries(MIME_TYPES).map(([ext, mime]) => [mime, ext])
+);
+EXTENSIONS["image/jpeg"] = ".jpg";
+
+export function guessMimeType(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] ?? "application/octet-stream";
+}
+
+/** 파일명에 확장자가 없으면 MIME 타입에 맞는 확장자를 붙인다 (WordPress는 확장자로 파일 형식을 검사한다) */
+function ensureExtension(filename: string, mimeType: string): string {
+  if (path.extname(filename)) return filename;
+  const ext = EXTENSIONS[mimeType];
+  return ext ? `${filename}${ext}` : filename;
+}
+
+/** url 다운로드로 접근할 수 없는 주소 (루프백, 사설망, 링크 로컬 등 서버 내부 네트워크) */
+const INTERNAL_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  INTERNAL_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["::ffff:0:0", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  INTERNAL_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+function isInternalAddress(address: string): boolean {
+  return INTERNAL_NETWORKS.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/** DNS 조회 결과가 내부 주소이면 연결하지 않는다 (리다이렉트 대상 호스트도 이 조회를 거친다) */
+const publicLookup = ((hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+    if (err) {
+      callback(err, "", 0);
+      return;
+    }
+    const internal = addresses.find((entry) => isInternalAddress(entry.address));
+    if (internal) {
+      callback(new Error(`내부 네트워크 주소로는 다운로드할 수 없습니다: ${hostname} (${internal.address})`), "", 0);
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as LookupFunction;
+
+const downloadAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/** 리다이렉트는 호스트를 확인하며 직접 따라간다 (IP 주소 호스트는 DNS 조회를 거치지 않으므로) */
+const MAX_REDIRECTS = 5;
+
+function checkDownloadUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`http/https URL만 다운로드할 수 있습니다: ${url.toString()}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isInternalAddress(host)) {
+    throw new Error(`내부 네트워크 주소로는 다운로드할 수 없습니다: ${url.hostname}`);
+  }
+}
+
+/** 원격 파일을 내려받는다. 제한 시간과 최대 크기를 넘으면 중단한다 */
+async function download(source: URL, policy: MediaPolicy): Promise<{ url: URL; response: Response; buffer: Buffer }> {
+  const signal = AbortSignal.timeout(policy.downloadTimeoutMs);
+  let url = source;
+  for (let redirects = 0; ; redirects++) {
+    checkDownloadUrl(url);
+    logger.debug(`미디어 다운로드: ${url.toString()}`);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        redirect: "manual",
+        signal,
+        dispatcher: downloadAgent,
+      } as RequestInit);
+    } catch (err) {
+      // fetch는 연결 오류를 "fetch failed"로 감싸므로 원인(내부 주소 거부, DNS 오류)을 드러낸다
+      throw err instanceof TypeError && err.cause instanceof Error ? err.cause : err;
+    }
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`리다이렉트가 너무 많습니다: ${source.toString()}`);
+      }
+      url = new URL(location, url);
+      continue;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`미디어 다운로드 실패 (${response.status}): ${url.toString()}`);
+    }
+
+    const tooLarge = () =>
+      new Error(`미디어가 최대 크기(${policy.maxDownloadBytes}바이트)를 넘습니다: ${url.toString()}`);
+    if (Number(response.headers.get("content-length")) > policy.maxDownloadBytes) {
+      await response.body?.cancel();
+      throw tooLarge();
+    }
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    if (response.body) {
+      const reader = response.body.getReader();
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.byteLength;
+        if (size > policy.maxDownloadBytes) {
+          await reader.cancel();
+          throw tooLarge();
+        }
+        chunks.push(chunk.value);
+      }
+    }
+    return { url, response, buffer: Buffer.concat(chunks) };
+  }
+}
+
+/**
+ * MediaSource를 읽어 업로드 가능한 바이너리로 변환한다.
+ * filePath는 policy.uploadDir 안의 파일만 읽고(심볼릭 링크는 실제 경로로 확인), url은 내부 네트워크 주소를 거부한다.
+ */
+export async function loadMediaFile(source: MediaSource, policy: MediaPolicy): Promise<MediaFile> {
+  const given = [source.data, source.filePath, source.url].filter((v) => v !== undefined);
+  if (given.length !== 1) {
+    throw new Error("data, filePath, url 중 정확히 하나를 지정해야 합니다.");
+  }
+
+  if (source.data !== undefined) {
+    let data = source.data.trim();
+    let mimeType = source.mimeType;
+    const dataUri = data.match(/^data:([^;,]+)?(?:;[^,]*)?,/);
+    if (dataUri) {
+      mimeType = mimeType ?? dataUri[1];
+      data = data.slice(dataUri[0].length);
+    }
+    if (!source.filename) {
+      throw new Error("base64 data로 업로드할 때는 filename이 필요합니다.");
+    }
+    mimeType = mimeType ?? guessMimeType(source.filename);
+    return {
+      buffer: Buffer.from(data, "base64"),
+      filename: ensureExtension(source.filename, mimeType),
+      mimeType,
+    };
+  }
+
+  if (source.filePath !== undefined) {
+    if (!policy.uploadDir) {
+      throw new Error("filePath 업로드가 비활성화되어 있습니다. MEDIA_UPLOAD_DIR에 업로드할 파일이 있는 디렉터리를 설정하세요.");
+    }
+    const root = await realpath(policy.uploadDir);
+    const target = await realpath(path.resolve(root, source.filePath));
+    if (target !== root && !target.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`MEDIA_UPLOAD_DIR 밖의 파일은 업로드할 수 없습니다: ${source.filePath}`);
+    }
+    const buffer = await readFile(target);
+    const filename = source.filename ?? path.basename(source.filePath);
+    return {
+      buffer,
+      filename,
+      mimeType: source.mimeType ?? guessMimeType(filename),
+    };
+  }
+
+  const { url, response, buffer } = await download(new URL(source.url!), policy).catch((err) => {
+    throw err instanceof Error && err.name === "TimeoutError"
+      ? new Error(`미디어 다운로드 제한 시간(${policy.downloadTimeoutMs}ms)을 넘었습니다: ${source.url}`)
+      : err;
+  });
+  const headerType = response.headers.get("content-type")?.split(";")[0].trim();
+  const basename = decodeURIComponent(path.basename(url.pathname)) || "download";
+  const mimeType =
+    source.mimeType ??
+    (headerType && headerType !== "application/octet-stream" ? headerType : guessMimeType(basename));
+  return {
+    buffer,
+    filename: ensureExtension(source.filename ?? basename, mimeType),
+    mimeType,
+  };
+}
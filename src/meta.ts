@@ -0,0 +1,198 @@
+/**
+ * post meta / ACF 필드 값 검증. WordPress는 REST에 등록되지 않은 meta 키를 조용히 무시하고,
+ * 타입이 맞지 않는 값은 요청 전체를 거부하므로 포스트 타입 스키마(OPTIONS 응답)로 미리 확인한다.
+ * 숫자 문자열("5")과 불리언 문자열("true", "1")은 WordPress처럼 허용한다.
+ */
+
+/** REST 스키마의 필드 정의 (JSON Schema 부분 집합) */
+export interface FieldSchema {
+  type?: string | string[];
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  format?: string;
+  items?: FieldSchema;
+  properties?: Record<string, FieldSchema>;
+  additionalProperties?: boolean | FieldSchema;
+  /** ACF는 필수 필드를 true로 표시한다 */
+  required?: boolean | string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  readonly?: boolean;
+}
+
+/** listMetaFields에 표시할 필드 정보 */
+export interface FieldInfo {
+  key: string;
+  type?: string | string[];
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  format?: string;
+  required?: boolean;
+  /** 배열 필드의 항목 타입 (단일 값이 아닌 meta) */
+  items?: string | string[];
+}
+
+export function describeFields(properties: Record<string, FieldSchema> = {}): FieldInfo[] {
+  return Object.entries(properties).map(([key, schema]) => ({
+    key,
+    type: schema.type,
+    description: schema.description || undefined,
+    default: schema.default,
+    enum: schema.enum,
+    format: schema.format,
+    required: schema.required === true ? true : undefined,
+    items: schema.items?.type,
+  }));
+}
+
+function typeMatches(value: unknown, type: string): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "string":
+      return typeof value === "string";
+    case "integer":
+      return (
+        (typeof value === "number" && Number.isInteger(value)) ||
+        (typeof value === "string" && /^-?\d+$/.test(value.trim()))
+      );
+    case "number":
+      return (
+        (typeof value === "number" && Number.isFinite(value)) ||
+        (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)))
+      );
+    case "boolean":
+      return typeof value === "boolean" || ["true", "false", "1", "0", 1, 0].includes(value as string | number);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function isUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function validateValue(value: unknown, schema: FieldSchema, path: string, errors: string[]) {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some((type) => typeMatches(value, type))) {
+    errors.push(`${path}: ${types.join(" | ")} 타입이어야 합니다 (입력: ${describe(value)}).`);
+    return;
+  }
+  if (value === null) return;
+
+  if (schema.enum && !schema.enum.some((option) => option === value || String(option) === String(value))) {
+    errors.push(`${path}: 허용되는 값은 ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}입니다.`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && [...value].length < schema.minLength) {
+      errors.push(`${path}: ${schema.minLength}자 이상이어야 합니다.`);
+    }
+    if (schema.maxLength !== undefined && [...value].length > schema.maxLength) {
+      errors.push(`${path}: ${schema.maxLength}자 이하여야 합니다.`);
+    }
+    if (schema.format === "email" && value !== "" && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+      errors.push(`${path}: 이메일 형식이 아닙니다.`);
+    }
+    if (schema.format === "uri" && value !== "" && !isUrl(value)) {
+      errors.push(`${path}: URL 형식이 아닙니다.`);
+    }
+  }
+
+  const numeric = types.includes("number") || types.includes("integer");
+  if (typeof value === "number" || (typeof value === "string" && numeric)) {
+    const number = Number(value);
+    if (schema.minimum !== undefined && number < schema.minimum) {
+      errors.push(`${path}: ${schema.minimum} 이상이어야 합니다.`);
+    }
+    if (schema.maximum !== undefined && number > schema.maximum) {
+      errors.push(`${path}: ${schema.maximum} 이하여야 합니다.`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: 항목이 ${schema.minItems}개 이상이어야 합니다.`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: 항목이 ${schema.maxItems}개 이하여야 합니다.`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(item, schema.items!, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (typeMatches(value, "object")) {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const [key, child] of Object.entries(object)) {
+      if (properties[key]) {
+        validateValue(child, properties[key], `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: 허용되지 않는 속성입니다.`);
+      } else if (typeof schema.additionalProperties === "object") {
+        validateValue(child, schema.additionalProperties, `${path}.${key}`, errors);
+      }
+    }
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (!(key in object)) errors.push(`${path}.${key}: 필수 속성입니다.`);
+      }
+    }
+  }
+}
+
+/**
+ * 입력 값을 스키마의 필드 정의와 비교하여 오류 메시지 목록을 반환한다.
+ * 스키마에 없는 키(REST에 등록되지 않은 meta, 존재하지 않는 ACF 필드)도 오류로 보고한다.
+ */
+export function validateFields(
+  values: Record<string, unknown>,
+  properties: Record<string, FieldSchema>,
+  label: string
+): string[] {
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    const schema = properties[key];
+    if (!schema) {
+      errors.push(`${label}.${key}: REST에 등록되지 않은 필드입니다. listMetaFields로 사용 가능한 키를 확인하세요.`);
+      continue;
+    }
+    if (schema.readonly) {
+      errors.push(`${label}.${key}: 읽기 전용 필드입니다.`);
+      continue;
+    }
+    // null은 meta 삭제(또는 ACF 값 비우기)이므로 필수 필드가 아니면 허용한다
+    if (value === null) {
+      if (schema.required === true) errors.push(`${label}.${key}: 필수 필드는 비울 수 없습니다.`);
+      continue;
+    }
+    if (schema.required === true && value === "") {
+      errors.push(`${label}.${key}: 필수 필드는 비울 수 없습니다.`);
+      continue;
+    }
+    validateValue(value, schema, `${label}.${key}`, errors);
+  }
+  return errors;
+}
@@ -0,0 +1,207 @@
+/**
+ * 편집 작업용 MCP 프롬프트 본문. 사이트에서 조회한 카테고리, 태그, 게시글 정보를 지시문에 넣어
+ * 클라이언트마다 같은 에이전트 지시문을 따로 작성하지 않도록 한다 (USECASE.md의 게시 파이프라인 참고).
+ */
+import { decodeEntities } from "./html-renderer.js";
+import { METADESC_LENGTH, SEO_TITLE_LENGTH } from "./seo.js";
+
+/** 프롬프트에 넣을 본문의 최대 길이 (이보다 길면 잘라낸다) */
+export const PROMPT_CONTENT_LIMIT = 8000;
+
+export interface PromptTerm {
+  id: number;
+  name: string;
+  parent?: number;
+  count?: number;
+}
+
+/** 카테고리를 "상위/하위" 경로로 표시한다 (createPost/updatePost의 categories에 그대로 쓸 수 있는 형식) */
+export function categoryPaths(categories: PromptTerm[]): string[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const pathOf = (category: PromptTerm): string => {
+    const names = [decodeEntities(category.name)];
+    const seen = new Set([category.id]);
+    let parent = category.parent ? byId.get(category.parent) : undefined;
+    while (parent && !seen.has(parent.id)) {
+      names.unshift(decodeEntities(parent.name));
+      seen.add(parent.id);
+      parent = parent.parent ? byId.get(parent.parent) : undefined;
+    }
+    return names.join("/");
+  };
+  return categories.map((category) => `${pathOf(category)} (${category.count ?? 0})`).sort();
+}
+
+function termList(terms: PromptTerm[]): string {
+  return terms.length > 0
+    ? terms.map((term) => `${decodeEntities(term.name)} (${term.count ?? 0})`).join(", ")
+    : "(없음)";
+}
+
+function bulletList(lines: string[]): string {
+  return lines.length > 0 ? lines.map((line) => `- ${line}`).join("\n") : "- (없음)";
+}
+
+function truncate(text: string): string {
+  return text.length > PROMPT_CONTENT_LIMIT
+    ? `${text.slice(0, PROMPT_CONTENT_LIMIT)}\n\n… (이하 ${text.length - PROMPT_CONTENT_LIMIT}자 생략)`
+    : text;
+}
+
+/** 퍼센트 인코딩된 한글 슬러그를 읽을 수 있게 표시한다 */
+function displaySlug(slug: string): string {
+  try {
+    return decodeURIComponent(slug);
+  } catch {
+    return slug;
+  }
+}
+
+function siteArg(site: string | undefined): string {
+  return site ? `모든 도구 호출에 site: "${site}"를 지정하세요.\n` : "";
+}
+
+export interface PublishDraftPromptInput {
+  site?: string;
+  markdown: string;
+  title?: string;
+  category?: string;
+  tags?: string[];
+  existingCategories: PromptTerm[];
+  existingTags: PromptTerm[];
+}
+
+/** Markdown 문서를 그대로 초안으로 게시하는 지시문 (파일 검증 → 변환 → 게시) */
+export function publishDraftPrompt(input: PublishDraftPromptInput): string {
+  return `아래 Markdown 문서를 WordPress에 초안(draft)으로 게시하세요.
+${siteArg(input.site)}
+## 절차
+1. 문서 검증: 본문이 비어 있거나 메타데이터(front matter)만 있으면 게시하지 말고 그 이유를 보고하세요.
+2. 제목: ${
+    input.title
+      ? `"${input.title}"을(를) 사용하세요.`
+      : "문서의 첫 번째 '# ' 제목을 사용하고, 그 줄은 본문에서 제외하세요. 제목 줄이 없으면 내용을 대표하는 제목을 만드세요."
+  }
+3. 본문: 문서 내용을 한 글자도 바꾸지 마세요. 요약, 교정, 내용 추가를 하지 않습니다. HTML로 직접 변환하지 말고 format: "markdown"으로 전달하면 서버가 스타일 규칙(MARKDOWN_STYLE_RULES)을 적용해 변환합니다.
+4. 카테고리: ${
+    input.category
+      ? `"${input.category}"를 지정하세요.`
+      : "아래 기존 카테고리 중 내용에 가장 맞는 것 1개를 경로 그대로 지정하세요. 맞는 카테고리가 없으면 비워 두세요."
+  }
+5. 태그: ${
+    input.tags && input.tags.length > 0
+      ? `${input.tags.map((tag) => `"${tag}"`).join(", ")}를 지정하세요. 없는 태그가 있으면 autoCreateTerms: true를 지정하세요.`
+      : "기존 태그 중 내용과 관련된 것을 3~5개 고르세요. 꼭 필요한 경우에만 새 태그를 쓰고 autoCreateTerms: true를 지정하세요."
+  }
+6. createPost를 status: "draft", format: "markdown"으로 호출하세요. categories/tags는 이름(카테고리는 "상위/하위" 경로)으로 지정할 수 있습니다.
+7. 생성된 게시글의 id, link, 지정한 카테고리/태그를 보고하세요.
+
+## 기존 카테고리 (경로, 게시글 수)
+${bulletList(categoryPaths(input.existingCategories))}
+
+## 자주 쓰는 태그 (게시글 수)
+${termList(input.existingTags)}
+
+## 문서
+${input.markdown}`;
+}
+
+export interface SeoPromptInput {
+  site?: string;
+  id: number;
+  title: string;
+  slug: string;
+  link: string;
+  /** Markdown으로 변환한 본문 */
+  content: string;
+  current: { title: string | null; metadesc: string | null; focuskw?: string | null };
+  focusKeyword?: string;
+  tone?: string;
+}
+
+/** 게시글의 Yoast SEO 제목, 메타 설명, 초점 키워드를 작성하는 지시문 */
+export function seoMetadataPrompt(input: SeoPromptInput): string {
+  const current = [
+    `SEO 제목: ${input.current.title || "(없음)"}`,
+    `메타 설명: ${input.current.metadesc || "(없음)"}`,
+    `초점 키워드: ${
+      input.current.focuskw === undefined ? "(확인 불가: yoast-seo 엔드포인트 없음)" : input.current.focuskw || "(없음)"
+    }`,
+  ];
+  return `게시글 ${input.id}의 Yoast SEO 메타데이터를 작성하세요.
+${siteArg(input.site)}
+## 작성 기준
+- 초점 키워드: ${
+    input.focusKeyword
+      ? `"${input.focusKeyword}"를 사용하세요.`
+      : "본문의 핵심 주제를 나타내는 검색어 1개(2~4단어)를 정하세요."
+  }
+- SEO 제목: ${SEO_TITLE_LENGTH.min}~${SEO_TITLE_LENGTH.max}자, 초점 키워드를 앞쪽에 포함
+- 메타 설명: ${METADESC_LENGTH.min}~${METADESC_LENGTH.max}자, 초점 키워드를 포함하고 클릭을 유도하는 문장
+- 어조: ${input.tone ?? "본문과 같은 어조"}
+- 슬러그나 본문 첫 문단에 초점 키워드가 없으면 수정하지 말고 보고만 하세요.
+
+## 절차
+1. 위 기준으로 값을 작성하세요. 현재 값이 기준을 만족하면 유지해도 됩니다.
+2. updateYoastSeo를 id: ${input.id}와 focuskw, title, metadesc로 호출하세요.
+3. auditSeo를 ids: [${input.id}]로 호출하여 남은 문제를 확인하고, 작성한 값과 함께 보고하세요.
+
+## 현재 값
+${bulletList(current)}
+
+## 게시글
+- 제목: ${input.title}
+- 슬러그: ${displaySlug(input.slug)}
+- 주소: ${input.link}
+
+${truncate(input.content)}`;
+}
+
+export interface RetagPromptPost {
+  id: number;
+  title: string;
+  date: string;
+  excerpt: string;
+  tags: string[];
+}
+
+export interface RetagPromptInput {
+  site?: string;
+  category?: string;
+  before?: string;
+  maxTags: number;
+  posts: RetagPromptPost[];
+  existingTags: PromptTerm[];
+}
+
+/** 오래된 게시글의 태그를 기존 태그 체계에 맞춰 다시 지정하는 지시문 */
+export function retagPrompt(input: RetagPromptInput): string {
+  const scope = [
+    input.category ? `카테고리 "${input.category}"` : undefined,
+    input.before ? `${input.before} 이전 발행` : undefined,
+  ].filter(Boolean);
+  const posts = input.posts.map(
+    (post) =>
+      `### ${post.id}: ${post.title}\n- 발행: ${post.date}\n- 현재 태그: ${
+        post.tags.length > 0 ? post.tags.join(", ") : "(없음)"
+      }\n- 요약: ${post.excerpt || "(없음)"}`
+  );
+  return `아래 게시글 ${input.posts.length}개${scope.length > 0 ? ` (${scope.join(", ")})` : ""}의 태그를 다시 지정하세요.
+${siteArg(input.site)}
+## 기준
+- 게시글마다 내용에 맞는 태그를 최대 ${input.maxTags}개 지정합니다.
+- 기존 태그를 우선 사용하고, 뜻이 같은 태그(대소문자, 단수/복수, 한영 표기 차이)는 게시글 수가 많은 쪽으로 통일합니다.
+- 새 태그는 기존 태그로 표현할 수 없을 때만 만들고 updatePost에 autoCreateTerms: true를 지정합니다.
+- 태그 외의 필드(제목, 본문, 카테고리, 상태)는 바꾸지 마세요.
+
+## 절차
+1. 게시글별 새 태그 목록을 정하세요. 현재 태그가 이미 적절하면 건너뜁니다.
+2. 바꿀 게시글마다 updatePost를 id와 tags(태그 이름 배열)로 호출하세요. tags는 기존 태그를 대체합니다.
+3. 게시글별 변경 전/후 태그와 새로 만든 태그를 표로 보고하세요.
+
+## 기존 태그 (게시글 수)
+${termList(input.existingTags)}
+
+## 게시글
+${posts.length > 0 ? posts.join("\n\n") : "(조건에 맞는 게시글이 없습니다)"}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * MCP 리소스 URI와 변경 알림. 리소스는 기본 사이트의 게시글, 페이지, 카테고리, 태그, 사이트 정보를 가리킨다.
+ * 세션마다 McpServer가 따로 만들어지므로 쓰기 도구의 변경 사항은 모듈 단위 이벤트로 모든 세션에 전달하고,
+ * 각 세션은 클라이언트가 구독한 URI에만 resources/updated 알림을 보낸다.
+ */
+import { EventEmitter } from "node:events";
+
+export const SITE_URI = "wordpress://site";
+export const CATEGORIES_URI = "wordpress://categories";
+export const TAGS_URI = "wordpress://tags";
+export const POST_URI_TEMPLATE = "wordpress://posts/{id}";
+export const PAGE_URI_TEMPLATE = "wordpress://pages/{id}";
+
+export function postUri(id: number): string {
+  return `wordpress://posts/${id}`;
+}
+
+export function pageUri(id: number): string {
+  return `wordpress://pages/${id}`;
+}
+
+/** 게시글/페이지 리소스 URI를 포스트 타입과 ID로 나눈다 */
+export function parseContentUri(uri: string): { type: "posts" | "pages"; id: number } | undefined {
+  const match = /^wordpress:\/\/(posts|pages)\/(\d+)$/.exec(uri);
+  return match ? { type: match[1] as "posts" | "pages", id: Number(match[2]) } : undefined;
+}
+
+/** 쓰기 도구 한 번으로 바뀐 리소스 */
+export interface ResourceChange {
+  site: string;
+  /** 내용이 바뀐 리소스 URI */
+  updated: string[];
+  /** 게시글/페이지가 추가되거나 삭제되어 리소스 목록이 바뀌었는지 여부 */
+  listChanged: boolean;
+}
+
+const changes = new EventEmitter();
+// 세션마다 리스너가 하나씩 붙으므로 동시 세션 수만큼 허용한다
+changes.setMaxListeners(0);
+
+export function emitResourceChange(change: ResourceChange) {
+  changes.emit("change", change);
+}
+
+/** 변경 리스너를 등록하고 해제 함수를 반환한다 */
+export function onResourceChange(listener: (change: ResourceChange) => void): () => void {
+  changes.on("change", listener);
+  return () => {
+    changes.off("change", listener);
+  };
+}
+
+/** args.id로 대상 게시글을 지정하는 도구 */
+const POST_TOOLS = new Set([
+  "updatePost",
+  "deletePost",
+  "reschedulePost",
+  "insertBlock",
+  "replaceBlock",
+  "removeBlock",
+  "restoreRevision",
+  "updateYoastSeo",
+]);
+
+const PAGE_TOOLS = new Set(["updatePage", "deletePage"]);
+
+/** args.postType/args.type로 포스트 타입을 지정하는 도구 (기본값: posts) */
+const TYPED_TOOLS = new Set([
+  "activateBuilder",
+  "insertBuilderSection",
+  "updateBuilderSection",
+  "removeBuilderSection",
+  "updatePostMeta",
+  "createItem",
+  "updateItem",
+  "deleteItem",
+]);
+
+const TERM_TOOLS: Record<string, string> = {
+  createCategory: CATEGORIES_URI,
+  updateCategory: CATEGORIES_URI,
+  deleteCategory: CATEGORIES_URI,
+  createTag: TAGS_URI,
+  updateTag: TAGS_URI,
+  deleteTag: TAGS_URI,
+};
+
+/** 포스트 타입/택소노미 이름(rest_base 또는 slug)을 리소스 종류로 바꾼다 */
+function resourceKind(type: string): "posts" | "pages" | "categories" | "tags" | undefined {
+  switch (type) {
+    case "posts":
+    case "post":
+      return "posts";
+    case "pages":
+    case "page":
+      return "pages";
+    case "categories":
+    case "category":
+      return "categories";
+    case "tags":
+    case "post_tag":
+      return "tags";
+    default:
+      return undefined;
+  }
+}
+
+/** 성공한 쓰기 도구 호출의 이름과 인자로 바뀐 리소스를 계산한다 (리소스와 무관한 도구는 빈 결과) */
+export function changedResources(
+  tool: string,
+  args: Record<string, unknown>
+): Omit<ResourceChange, "site"> {
+  const id = typeof args.id === "number" ? args.id : undefined;
+  const updated: string[] = [];
+  let listChanged = false;
+
+  if (tool === "createPost" || tool === "createPage") {
+    listChanged = true;
+  }
+  if (POST_TOOLS.has(tool) && id !== undefined) {
+    updated.push(postUri(id));
+    listChanged = tool === "deletePost";
+  }
+  if (PAGE_TOOLS.has(tool) && id !== undefined) {
+    updated.push(pageUri(id));
+    listChanged = tool === "deletePage";
+  }
+  if (TYPED_TOOLS.has(tool)) {
+    const kind = resourceKind(String(args.postType ?? args.type ?? "posts"));
+    if (kind === "categories") updated.push(CATEGORIES_URI);
+    if (kind === "tags") updated.push(TAGS_URI);
+    if ((kind === "posts" || kind === "pages") && id !== undefined) {
+      updated.push(kind === "posts" ? postUri(id) : pageUri(id));
+    }
+    if ((kind === "posts" || kind === "pages") && (tool === "createItem" || tool === "deleteItem")) {
+      listChanged = true;
+    }
+  }
+  if (TERM_TOOLS[tool]) {
+    updated.push(TERM_TOOLS[tool]);
+  }
+  // 이름으로 지정한 카테고리/태그가 새로 만들어졌을 수 있다
+  if ((tool === "createPost" || tool === "updatePost") && args.autoCreateTerms) {
+    if (args.categories) updated.push(CATEGORIES_URI);
+    if (args.tags) updated.push(TAGS_URI);
+  }
+
+  return { updated, listChanged };
+}
@@ -0,0 +1,114 @@
+/**
+ * 예약 발행 일시 처리. WordPress의 date 필드는 사이트 시간대 기준의 현지 시각이므로
+ * 오프셋이 있는 입력(2026-11-03T00:00:00Z 등)은 사이트 시간대 현지 시각으로 바꿔서 보낸다.
+ */
+
+/** 사이트 설정의 시간대 (/wp-json 인덱스의 timezone_string, gmt_offset) */
+export interface SiteTimezone {
+  /** IANA 시간대 이름 (예: Asia/Seoul). "UTC+9"처럼 오프셋만 설정한 사이트는 빈 문자열 */
+  timezone: string;
+  /** UTC 기준 시간 오프셋 (예: 9, -3.5) */
+  gmtOffset: number;
+}
+
+/** 해석된 예약 일시 */
+export interface ScheduleDate {
+  /** 사이트 시간대 현지 시각 (YYYY-MM-DDTHH:mm:ss) — WordPress date 필드 */
+  date: string;
+  /** UTC 시각 (YYYY-MM-DDTHH:mm:ss) — WordPress date_gmt 필드 */
+  dateGmt: string;
+  instant: Date;
+}
+
+const LOCAL_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+const HAS_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/** Date의 UTC 필드를 WordPress 날짜 문자열로 만든다 */
+function formatUtcFields(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`
+  );
+}
+
+/** 주어진 순간의 사이트 시간대 UTC 오프셋(분). IANA 시간대가 있으면 일광 절약 시간을 반영한다 */
+function offsetMinutesAt(instant: Date, tz: SiteTimezone): number {
+  if (!tz.timezone) {
+    return Math.round(tz.gmtOffset * 60);
+  }
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: tz.timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClock - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/** 순간을 사이트 시간대 현지 시각 문자열로 변환한다 */
+export function toSiteLocal(instant: Date, tz: SiteTimezone): string {
+  return formatUtcFields(new Date(instant.getTime() + offsetMinutesAt(instant, tz) * 60000));
+}
+
+/** 사이트 시간대 현지 시각 문자열을 순간으로 변환한다 */
+export function fromSiteLocal(local: string, tz: SiteTimezone): Date {
+  const match = LOCAL_DATE.exec(local);
+  if (!match) {
+    throw new Error(`날짜 형식이 잘못되었습니다: ${local} (예: 2026-11-03T09:00:00)`);
+  }
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  // 오프셋은 변환 결과 시각에 따라 달라질 수 있으므로(일광 절약 시간) 한 번 더 보정한다
+  let instant = new Date(wallClock - offsetMinutesAt(new Date(wallClock), tz) * 60000);
+  instant = new Date(wallClock - offsetMinutesAt(instant, tz) * 60000);
+  return instant;
+}
+
+/**
+ * 도구 입력 일시를 해석한다. 오프셋(Z, +09:00)이 있으면 그 순간을, 없으면 사이트 시간대 현지 시각으로 본다.
+ */
+export function resolveScheduleDate(input: string, tz: SiteTimezone): ScheduleDate {
+  const trimmed = input.trim();
+  let instant: Date;
+  if (HAS_OFFSET.test(trimmed)) {
+    instant = new Date(trimmed);
+    if (Number.isNaN(instant.getTime())) {
+      throw new Error(`날짜 형식이 잘못되었습니다: ${input} (예: 2026-11-03T09:00:00+09:00)`);
+    }
+  } else {
+    instant = fromSiteLocal(trimmed, tz);
+  }
+  return { date: toSiteLocal(instant, tz), dateGmt: formatUtcFields(instant), instant };
+}
+
+/** 시간대 표시용 문자열 (예: Asia/Seoul (UTC+09:00)) */
+export function describeTimezone(tz: SiteTimezone, at = new Date()): string {
+  const minutes = offsetMinutesAt(at, tz);
+  const sign = minutes < 0 ? "-" : "+";
+  const offset = `UTC${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+  return tz.timezone ? `${tz.timezone} (${offset})` : offset;
+}
+
+/** from부터 to까지(포함) YYYY-MM-DD 날짜 목록 */
+export function daysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  const start = Date.parse(`${from}T00:00:00Z`);
+  const end = Date.parse(`${to}T00:00:00Z`);
+  for (let time = start; time <= end; time += 86_400_000) {
+    days.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return days;
+}
@@ -0,0 +1,157 @@
+/**
+ * Yoast SEO 점검 규칙. 게시글의 SEO 제목/메타 설명 길이, 초점 키워드 사용 위치, 이미지 대체 텍스트,
+ * 사이트 내 메타 설명 중복을 확인한다. 길이 기준은 Yoast SEO 분석 기준(문자 수 근사)을 따른다.
+ */
+import { decodeEntities, htmlToText } from "./html-renderer.js";
+
+export const SEO_TITLE_LENGTH = { min: 30, max: 60 };
+export const METADESC_LENGTH = { min: 120, max: 156 };
+
+export type SeoCheck =
+  | "seo_title_missing"
+  | "seo_title_length"
+  | "metadesc_missing"
+  | "metadesc_length"
+  | "metadesc_duplicate"
+  | "focuskw_missing"
+  | "focuskw_not_in_title"
+  | "focuskw_not_in_slug"
+  | "focuskw_not_in_first_paragraph"
+  | "image_alt_missing";
+
+export interface SeoIssue {
+  check: SeoCheck;
+  severity: "error" | "warning";
+  message: string;
+}
+
+/** 점검 대상 게시글. seoTitle/metadesc는 Yoast가 출력하는 값, focuskw는 저장된 초점 키워드 */
+export interface SeoAuditInput {
+  id: number;
+  slug: string;
+  /** 렌더링된 본문 HTML */
+  content: string;
+  seoTitle?: string;
+  metadesc?: string;
+  /** undefined면 초점 키워드를 읽을 수 없는 사이트이므로 키워드 점검을 건너뛴다 */
+  focuskw?: string | null;
+}
+
+function normalize(text: string): string {
+  return decodeEntities(text).replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/** 본문의 첫 문단 텍스트. <p>가 없으면 본문 앞부분 */
+export function firstParagraph(html: string): string {
+  const match = /<p\b[^>]*>([\s\S]*?)<\/p>/i.exec(html);
+  return match ? htmlToText(match[1]) : htmlToText(html).slice(0, 300);
+}
+
+/** alt 속성이 없거나 비어 있는 이미지의 src 목록 */
+export function imagesWithoutAlt(html: string): string[] {
+  const missing: string[] = [];
+  for (const [tag] of html.matchAll(/<img\b[^>]*>/gi)) {
+    const alt = /\balt\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(tag);
+    if (!alt || !(alt[1] ?? alt[2] ?? "").trim()) {
+      missing.push(/\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(tag)?.slice(1).find(Boolean) ?? "(src 없음)");
+    }
+  }
+  return missing;
+}
+
+function lengthIssue(
+  check: "seo_title_length" | "metadesc_length",
+  label: string,
+  value: string,
+  range: { min: number; max: number }
+): SeoIssue | undefined {
+  const length = [...decodeEntities(value)].length;
+  if (length < range.min || length > range.max) {
+    return {
+      check,
+      severity: "warning",
+      message: `${label} 길이가 ${length}자입니다 (권장: ${range.min}~${range.max}자).`,
+    };
+  }
+  return undefined;
+}
+
+/** 게시글 하나를 점검한다 (메타 설명 중복은 findDuplicateMetadescs로 사이트 단위 점검) */
+export function auditPost(post: SeoAuditInput): SeoIssue[] {
+  const issues: (SeoIssue | undefined)[] = [];
+
+  if (!post.seoTitle?.trim()) {
+    issues.push({ check: "seo_title_missing", severity: "error", message: "SEO 제목이 없습니다." });
+  } else {
+    issues.push(lengthIssue("seo_title_length", "SEO 제목", post.seoTitle, SEO_TITLE_LENGTH));
+  }
+
+  if (!post.metadesc?.trim()) {
+    issues.push({ check: "metadesc_missing", severity: "error", message: "메타 설명이 없습니다." });
+  } else {
+    issues.push(lengthIssue("metadesc_length", "메타 설명", post.metadesc, METADESC_LENGTH));
+  }
+
+  if (post.focuskw !== undefined) {
+    const keyword = normalize(post.focuskw ?? "");
+    if (!keyword) {
+      issues.push({ check: "focuskw_missing", severity: "warning", message: "초점 키워드가 설정되지 않았습니다." });
+    } else {
+      if (post.seoTitle && !normalize(post.seoTitle).includes(keyword)) {
+        issues.push({
+          check: "focuskw_not_in_title",
+          severity: "warning",
+          message: `SEO 제목에 초점 키워드 "${post.focuskw}"가 없습니다.`,
+        });
+      }
+      let slug = post.slug;
+      try {
+        slug = decodeURIComponent(post.slug);
+      } catch {
+        // 잘못된 퍼센트 인코딩이면 원래 슬러그로 비교한다
+      }
+      if (!slug.toLowerCase().includes(keyword.replace(/ /g, "-"))) {
+        issues.push({
+          check: "focuskw_not_in_slug",
+          severity: "warning",
+          message: `슬러그 "${slug}"에 초점 키워드가 없습니다.`,
+        });
+      }
+      if (!normalize(firstParagraph(post.content)).includes(keyword)) {
+        issues.push({
+          check: "focuskw_not_in_first_paragraph",
+          severity: "warning",
+          message: "본문 첫 문단에 초점 키워드가 없습니다.",
+        });
+      }
+    }
+  }
+
+  const missingAlt = imagesWithoutAlt(post.content);
+  if (missingAlt.length > 0) {
+    issues.push({
+      check: "image_alt_missing",
+      severity: "warning",
+      message: `대체 텍스트(alt)가 없는 이미지 ${missingAlt.length}개: ${missingAlt.slice(0, 5).join(", ")}${
+        missingAlt.length > 5 ? " 외" : ""
+      }`,
+    });
+  }
+
+  return issues.filter((issue): issue is SeoIssue => issue !== undefined);
+}
+
+/** 같은 메타 설명을 쓰는 게시글 묶음 (대소문자/공백 차이 무시) */
+export function findDuplicateMetadescs(
+  posts: { id: number; metadesc?: string }[]
+): { metadesc: string; posts: number[] }[] {
+  const groups = new Map<string, { metadesc: string; posts: number[] }>();
+  for (const post of posts) {
+    if (!post.metadesc?.trim()) continue;
+    const key = normalize(post.metadesc);
+    const group = groups.get(key) ?? { metadesc: decodeEntities(post.metadesc).trim(), posts: [] };
+    group.posts.push(post.id);
+    groups.set(key, group);
+  }
+  return [...groups.values()].filter((group) => group.posts.length > 1);
+}
@@ -1,32 +1,99 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { WordPressClient } from "./wordpress-client.js";
-import type { Config } from "./config.js";
+import {
+  WordPressClient,
+  type Paginated,
+  type WPComment,
+  type WPItem,
+  type WPMedia,
+  type WPPage,
+  type WPPost,
+  type WPRevision,
+  type WPUser,
+  type YoastSeoResponse,
+} from "./wordpress-client.js";
+import { ALL_SCOPES, type ApprovalPolicy, type Config, type SiteAuth } from "./config.js";
+import { toolScope } from "./auth.js";
 import { logger } from "./logger.js";
+import { WordPressApiError } from "./errors.js";
+import { loadMediaFile } from "./media.js";
+import { decodeEntities, htmlToMarkdown, htmlToText } from "./html-renderer.js";
+import { unifiedDiff } from "./diff.js";
+import { daysBetween, describeTimezone, fromSiteLocal, resolveScheduleDate, toSiteLocal } from "./schedule.js";
+import { auditPost, findDuplicateMetadescs } from "./seo.js";
+import { describeFields, validateFields } from "./meta.js";
+import {
+  BUILDERS,
+  childrenAt,
+  describeLayout,
+  loadBuilderPost,
+  locateNode,
+  resolveBuilder,
+  saveBuilderPost,
+  type BuilderName,
+  type BuilderPostType,
+  type LayoutNode,
+} from "./builders.js";
+import {
+  CATEGORIES_URI,
+  PAGE_URI_TEMPLATE,
+  POST_URI_TEMPLATE,
+  SITE_URI,
+  TAGS_URI,
+  changedResources,
+  emitResourceChange,
+  onResourceChange,
+} from "./resources.js";
+import { publishDraftPrompt, retagPrompt, seoMetadataPrompt, type PromptTerm } from "./prompts.js";
+import { DryRunRecorder, currentDryRun, runDryRun } from "./dry-run.js";
+import { approvalReasons, approvals, hasApprovalRules, type ActionStatus } from "./approvals.js";
+import { TermResolver, type CreatedTerm, type TermInput } from "./terms.js";
+import { convertContent, markdownToBlocks, styleRuleSchema, type StyleRule } from "./markdown.js";
+import {
+  blockAnchor,
+  contentBlocks,
+  joinBlocks,
+  locateBlock,
+  parseBlocks,
+  serializeBlock,
+  type ParsedBlock,
+} from "./blocks.js";
 
-/** WordPress API 응답에서 HTML 태그를 제거한 클린 객체를 반환한다 */
-function cleanPost(post: {
-  id: number;
-  date: string;
-  slug: string;
-  status: string;
-  title: { rendered: string };
-  content: { rendered: string };
-  excerpt: { rendered: string };
-  author: number;
-  featured_media: number;
-  categories: number[];
-  tags: number[];
-  link: string;
-}) {
+/** 게시글 본문 반환 형식 */
+type PostContentFormat = "text" | "markdown" | "html" | "raw";
+
+/** rendered HTML을 요청한 형식으로 변환한다. raw 값이 없으면 rendered를 사용한다 */
+function renderField(field: { rendered: string; raw?: string }, format: PostContentFormat): string {
+  switch (format) {
+    case "raw":
+      return field.raw ?? field.rendered;
+    case "html":
+      return field.rendered;
+    case "markdown":
+      return htmlToMarkdown(field.rendered);
+    default:
+      return htmlToText(field.rendered);
+  }
+}
+
+/** WordPress API 응답을 에이전트가 읽기 쉬운 클린 객체로 변환한다 (기본: 텍스트) */
+function cleanPost(post: WPPost, format: PostContentFormat = "text") {
   return {
     id: post.id,
     date: post.date,
+    date_gmt: post.date_gmt,
     slug: post.slug,
     status: post.status,
-    title: stripHtml(post.title.rendered),
-    content: stripHtml(post.content.rendered),
-    excerpt: stripHtml(post.excerpt.rendered),
+    // 제목은 HTML 구조가 없으므로 html/markdown 형식에서도 텍스트로 반환한다
+    title: format === "raw" ? renderField(post.title, "raw") : htmlToText(post.title.rendered),
+    content: renderField(post.content, format),
+    excerpt: renderField(post.excerpt, format),
     author: post.author,
     featured_media: post.featured_media,
     categories: post.categories,
@@ -35,27 +102,622 @@ function cleanPost(post: {
   };
 }
 
-function stripHtml(html: string): string {
-  return html.replace(/<[^>]*>/g, "").trim();
+/** 페이지 응답을 클린 객체로 변환한다 (cleanPost와 동일 규칙 + 계층 정보) */
+function cleanPage(page: WPPage, format: PostContentFormat = "text") {
+  return {
+    id: page.id,
+    date: page.date,
+    slug: page.slug,
+    status: page.status,
+    title: format === "raw" ? renderField(page.title, "raw") : htmlToText(page.title.rendered),
+    content: renderField(page.content, format),
+    excerpt: renderField(page.excerpt, format),
+    author: page.author,
+    featured_media: page.featured_media,
+    parent: page.parent,
+    menu_order: page.menu_order,
+    template: page.template,
+    link: page.link,
+  };
+}
+
+/** 임의의 REST 리소스 응답(WPItem, WPPost 등)에서 _links를 제거하고 rendered 필드를 요청 형식으로 변환한다 */
+function cleanItem(item: object, format: PostContentFormat = "text") {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(item)) {
+    if (key === "_links" || key === "guid") continue;
+    if (value && typeof value === "object" && typeof (value as { rendered?: unknown }).rendered === "string") {
+      const field = value as { rendered: string; raw?: string };
+      result[key] =
+        key === "title" && format !== "raw" ? htmlToText(field.rendered) : renderField(field, format);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/** 미디어 응답에서 에이전트에 필요한 필드만 추려 반환한다 */
+function cleanMedia(media: WPMedia) {
+  return {
+    id: media.id,
+    date: media.date,
+    slug: media.slug,
+    title: htmlToText(media.title.rendered),
+    caption: htmlToText(media.caption.rendered),
+    description: htmlToText(media.description.rendered),
+    alt_text: media.alt_text,
+    media_type: media.media_type,
+    mime_type: media.mime_type,
+    source_url: media.source_url,
+    post: media.post,
+    author: media.author,
+    link: media.link,
+  };
+}
+
+function cleanComment(comment: WPComment) {
+  return {
+    id: comment.id,
+    post: comment.post,
+    parent: comment.parent,
+    status: comment.status,
+    date: comment.date,
+    author: comment.author,
+    author_name: comment.author_name,
+    author_email: comment.author_email,
+    author_url: comment.author_url,
+    content: htmlToText(comment.content.rendered),
+    link: comment.link,
+  };
+}
+
+/**
+ * 예약 일시 입력을 검증하고 WordPress date 필드(사이트 시간대 현지 시각)로 변환한다.
+ * WordPress는 일시가 지난 future 글을 즉시 발행하므로, 결과 상태가 future이면 예약 일시가 미래여야 한다.
+ * id(수정 대상 게시글)를 주면 status 생략 시 기존 상태를, date 생략 시 기존 예약 일시를 기준으로 검사한다.
+ */
+async function resolvePostDate(
+  wp: WordPressClient,
+  date: string | undefined,
+  status: string | undefined,
+  id?: number
+): Promise<string | undefined> {
+  if (date === undefined && status !== "future") {
+    return undefined;
+  }
+  const current =
+    id !== undefined && (status === undefined || date === undefined) ? await wp.getPost(id) : undefined;
+  const tz = await wp.getSiteTimezone();
+  if (date === undefined) {
+    // status=future로 바꾸면서 일시를 생략하면 기존 예약 일시가 미래여야 한다 (날짜 미지정 초안은 date_gmt가 null)
+    if (!current?.date_gmt || fromSiteLocal(current.date, tz).getTime() <= Date.now()) {
+      throw new Error(
+        current?.date_gmt
+          ? `게시글 ${id}의 발행 일시 ${current.date} [${describeTimezone(tz)}]가 현재보다 이전입니다. status=future에는 미래 date(예약 일시)를 함께 지정하세요.`
+          : "status=future에는 date(예약 일시)가 필요합니다."
+      );
+    }
+    return undefined;
+  }
+  const schedule = resolveScheduleDate(date, tz);
+  const scheduled = status === "future" || (status === undefined && current?.status === "future");
+  if (scheduled && schedule.instant.getTime() <= Date.now()) {
+    throw new Error(
+      `예약 일시 ${schedule.date} [${describeTimezone(tz)}]가 현재보다 이전입니다. ` +
+        "예약 글(future)에 지난 일시를 지정하면 WordPress가 즉시 발행합니다."
+    );
+  }
+  return schedule.date;
+}
+
+const postDateSchema = z
+  .string()
+  .optional()
+  .describe(
+    "발행(예약) 일시 (ISO 8601). 오프셋이 없으면 사이트 시간대 기준 (예: 2026-11-03T09:00:00, 2026-11-03T00:00:00Z). 미래 일시와 status=future로 예약 발행"
+  );
+
+/** 리비전 목록 항목. 본문은 getRevision으로 조회한다 */
+function summarizeRevision(revision: WPRevision) {
+  return {
+    id: revision.id,
+    post: revision.parent,
+    author: revision.author,
+    date: revision.date,
+    modified: revision.modified,
+    title: htmlToText(revision.title.rendered),
+  };
+}
+
+/** 리비전 또는 현재 게시글의 제목/본문/요약을 요청한 형식의 텍스트로 만든다 */
+function revisionFields(
+  entry: Pick<WPRevision, "title" | "content" | "excerpt">,
+  format: PostContentFormat
+) {
+  return {
+    title: format === "raw" ? renderField(entry.title, "raw") : htmlToText(entry.title.rendered),
+    content: renderField(entry.content, format),
+    excerpt: renderField(entry.excerpt, format),
+  };
+}
+
+function cleanUser(user: WPUser) {
+  return {
+    id: user.id,
+    name: user.name,
+    slug: user.slug,
+    username: user.username,
+    email: user.email,
+    roles: user.roles,
+    description: user.description,
+    registered_date: user.registered_date,
+    link: user.link,
+  };
+}
+
+/** getCapabilities가 요약하는 주요 WordPress 권한 */
+const CAPABILITY_CHECKS: Record<string, string> = {
+  publishPosts: "publish_posts",
+  editPosts: "edit_posts",
+  editPublishedPosts: "edit_published_posts",
+  editOthersPosts: "edit_others_posts",
+  deletePosts: "delete_posts",
+  deleteOthersPosts: "delete_others_posts",
+  publishPages: "publish_pages",
+  editPages: "edit_pages",
+  editOthersPages: "edit_others_pages",
+  manageCategories: "manage_categories",
+  uploadFiles: "upload_files",
+  moderateComments: "moderate_comments",
+  listUsers: "list_users",
+  createUsers: "create_users",
+  promoteUsers: "promote_users",
+  manageOptions: "manage_options",
+};
+
+/**
+ * 블록 편집에 쓸 원본 본문(content.raw). rendered HTML에는 블록 구분 주석이 없고 쇼트코드와 동적 블록이
+ * 이미 펼쳐져 있으므로 대신 사용하면 저장 시 블록 구조가 사라진다. raw가 없으면(편집 권한 없음) 오류를 던진다
+ */
+function rawContent(post: Pick<WPPost, "id" | "content">): string {
+  if (post.content.raw === undefined) {
+    throw new Error(
+      `게시글 ${post.id}의 원본 본문(content.raw)을 조회할 수 없습니다. 게시글 편집 권한(context=edit)이 있는 계정인지 확인하세요.`
+    );
+  }
+  return post.content.raw;
+}
+
+/** 블록 편집 도구가 반환하는 블록 요약 */
+function describeBlocks(blocks: ParsedBlock[]) {
+  return blocks.map((block, index) => ({
+    index,
+    blockName: block.blockName ?? "freeform",
+    attrs: block.attrs,
+    anchor: blockAnchor(block),
+    innerBlocks: block.innerBlocks.map((inner) => inner.blockName ?? "freeform"),
+    html: serializeBlock(block).trim(),
+  }));
+}
+
+/** 빌더 도구 입력 요소 (attrs 생략 가능) */
+interface LayoutNodeInput {
+  type: string;
+  id?: string;
+  attrs?: Record<string, unknown>;
+  content?: string;
+  children?: LayoutNodeInput[];
+}
+
+function toLayoutNode(input: LayoutNodeInput): LayoutNode {
+  if (input.content !== undefined && input.children !== undefined) {
+    throw new Error(`요소(${input.type})에 content와 children을 함께 지정할 수 없습니다.`);
+  }
+  return {
+    type: input.type,
+    id: input.id,
+    attrs: input.attrs ?? {},
+    content: input.content,
+    children: input.children?.map(toLayoutNode),
+  };
+}
+
+/** 블록 편집 도구의 입력 content를 블록 배열로 변환한다 */
+function toBlocks(
+  content: string,
+  format: "blocks" | "markdown" | "html",
+  styleRules: StyleRule[]
+): ParsedBlock[] {
+  switch (format) {
+    case "markdown":
+      return contentBlocks(markdownToBlocks(content, { styleRules }));
+    case "html":
+      return parseBlocks(`<!-- wp:html -->\n${content.trim()}\n<!-- /wp:html -->`);
+    default:
+      return contentBlocks(content);
+  }
+}
+
+const postContentFormatSchema = z
+  .enum(["text", "markdown", "html", "raw"])
+  .optional()
+  .describe(
+    "본문 반환 형식 (기본값: text). text는 구조를 유지한 일반 텍스트, markdown은 Markdown, html은 렌더링된 HTML, raw는 저장된 원본(블록 주석 포함)"
+  );
+
+const contentFormatSchema = z
+  .enum(["html", "markdown", "blocks"])
+  .optional()
+  .describe(
+    "content 입력 형식 (기본값: html). markdown이면 HTML로, blocks이면 Gutenberg 블록 마크업으로 변환하여 저장"
+  );
+
+const idSchema = z.number().int().min(1);
+
+const postStatusSchema = z.enum(["publish", "future", "draft", "pending", "private", "trash"]);
+
+const termOperatorSchema = z.enum(["AND", "OR"]).optional();
+
+/** listPosts의 fields로 선택할 수 있는 게시글 필드 */
+const POST_FIELDS = [
+  "id",
+  "date",
+  "date_gmt",
+  "modified",
+  "slug",
+  "status",
+  "title",
+  "content",
+  "excerpt",
+  "author",
+  "featured_media",
+  "categories",
+  "tags",
+  "sticky",
+  "link",
+] as const;
+
+const termInputSchema = z.union([idSchema, z.string().min(1)]);
+
+const autoCreateTermsSchema = z
+  .boolean()
+  .optional()
+  .describe("true이면 categories/tags에 지정한 이름 중 없는 항목을 새로 만든다 (기본값: false)");
+
+/** 게시글 입력의 categories/tags(ID, 이름, 슬러그, 카테고리 경로)를 ID 배열로 해석한다 */
+async function resolvePostTerms(
+  resolver: TermResolver,
+  terms: { categories?: TermInput[]; tags?: TermInput[] },
+  autoCreate: boolean
+): Promise<{ categories?: number[]; tags?: number[]; created: CreatedTerm[] }> {
+  const created: CreatedTerm[] = [];
+  const categories = terms.categories && (await resolver.resolve("categories", terms.categories, autoCreate, created));
+  const tags = terms.tags && (await resolver.resolve("tags", terms.tags, autoCreate, created));
+  return { categories, tags, created };
+}
+
+const styleRulesSchema = z
+  .array(styleRuleSchema)
+  .optional()
+  .describe("Markdown 변환 시 적용할 스타일 규칙 (생략 시 서버 기본 규칙 MARKDOWN_STYLE_RULES 사용)");
+
+const paginationShape = {
+  all: z
+    .boolean()
+    .optional()
+    .describe("true이면 모든 페이지를 동시에 조회합니다 (page/per_page 무시)"),
+  maxItems: z
+    .number()
+    .int()
+    .min(1)
+    .max(10000)
+    .optional()
+    .describe("all 모드에서 반환할 최대 항목 수 (기본값: 1000)"),
+};
+
+/** 목록 결과를 { items, pagination } 형태로 직렬화한다 */
+function paginatedText<T, R>(result: Paginated<T>, map: (item: T) => R): string {
+  const { items, ...pagination } = result;
+  return jsonText({ items: items.map(map), pagination });
 }
 
 function jsonText(data: unknown): string {
   return JSON.stringify(data, null, 2);
 }
 
-export function createServer(config: Config): McpServer {
+/** 게시글/페이지 리소스 목록에 표시할 최근 항목 수 */
+const RESOURCE_LIST_SIZE = 50;
+
+/** 리소스 URI 템플릿의 {id} 값을 게시글 ID로 변환한다 */
+function resourceId(value: string | string[]): number {
+  const id = Number(Array.isArray(value) ? value[0] : value);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new Error(`잘못된 리소스 ID입니다: ${value}`);
+  }
+  return id;
+}
+
+/** 카테고리/태그 전체를 계층 파악에 필요한 필드만 조회한다 */
+async function listAllTerms(wp: WordPressClient, taxonomy: "categories" | "tags") {
+  const result = await wp.listItems(taxonomy, {
+    all: true,
+    orderby: "name",
+    filters: { _fields: taxonomy === "categories" ? "id,name,slug,parent,count" : "id,name,slug,count" },
+  });
+  return result.items as (WPItem & PromptTerm)[];
+}
+
+/** 게시글 수가 많은 태그부터 최대 100개 (프롬프트에 넣을 기존 태그 목록) */
+async function listPopularTags(wp: WordPressClient) {
+  const result = await wp.listItems("tags", {
+    per_page: 100,
+    orderby: "count",
+    order: "desc",
+    filters: { _fields: "id,name,count" },
+  });
+  return result.items as (WPItem & PromptTerm)[];
+}
+
+/** 세션 사용자의 WordPress 자격 증명과 그 자격 증명을 보낼 사이트 */
+export interface SessionCredentials {
+  site: string;
+  auth: SiteAuth;
+}
+
+/** 세션별 서버 생성 옵션 */
+export interface CreateServerOptions {
+  /** 호출자에게 허용된 scope (기본: 전체). 허용되지 않은 도구는 tools/list에서 숨겨지고 호출할 수 없다 */
+  scopes?: readonly string[];
+  /** 세션 사용자의 WordPress 자격 증명. 지정하면 세션에서 그 사이트만 사용할 수 있다 */
+  credentials?: SessionCredentials;
+  /** 세션을 만든 호출자. 승인 대기 작업의 요청자/검토자로 기록된다 */
+  clientId?: string;
+  /** HTTP 전송 세션 여부. true이면 서버 로컬 파일(uploadMedia의 filePath)에 접근할 수 없다 */
+  remote?: boolean;
+}
+
+/** 사이트 내용을 바꾸는 도구 (write/delete/admin scope). 승인 도구는 대기열만 다루므로 제외한다 */
+function modifiesSite(name: string): boolean {
+  const scope = toolScope(name);
+  return scope === "write" || scope === "delete" || scope === "admin";
+}
+
+/** 도구 등록 시 필요한 scope가 허용 목록에 없으면 바로 비활성화한다 */
+function restrictTools(server: McpServer, scopes: readonly string[]) {
+  const register = server.tool.bind(server) as (name: string, ...rest: unknown[]) => RegisteredTool;
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    const tool = register(name, ...rest);
+    if (!scopes.includes(toolScope(name))) {
+      tool.disable();
+    }
+    return tool;
+  }) as typeof server.tool;
+}
+
+const dryRunSchema = z
+  .boolean()
+  .optional()
+  .describe("true이면 사이트에 쓰지 않고 입력 검증과 참조 확인 후 보낼 요청과 현재 값과의 diff만 반환한다");
+
+/**
+ * 쓰기 도구에 dryRun 인자를 추가한다. dryRun(또는 서버 전체 dryRun)이면 도구를 dryRun 컨텍스트에서 실행하고,
+ * 도구 결과 대신 기록된 요청을 반환한다. 쓰기 전에 실패한 호출(입력 오류)은 도구의 오류를 그대로 반환한다
+ */
+function enableDryRun(server: McpServer, serverWide: boolean) {
+  const register = server.tool.bind(server) as (name: string, ...rest: unknown[]) => RegisteredTool;
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    if (modifiesSite(name)) {
+      const handler = rest.pop() as (args: Record<string, unknown>, extra: unknown) => Promise<CallToolResult>;
+      const shape = rest.pop() as z.ZodRawShape;
+      rest.push({ ...shape, dryRun: dryRunSchema }, async ({ dryRun, ...args }: Record<string, unknown>, extra: unknown) => {
+        if (!serverWide && !dryRun) {
+          return handler(args, extra);
+        }
+        logger.info(`${name} dryRun${serverWide ? " (서버 설정)" : ""}`);
+        const recorder = new DryRunRecorder();
+        const result = await runDryRun(recorder, () => handler(args, extra));
+        if (recorder.requests.length === 0 && result.isError) {
+          return result;
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                dryRun: true,
+                tool: name,
+                requests: recorder.requests,
+                problems: recorder.problems,
+                message:
+                  recorder.requests.length === 0
+                    ? "보낼 쓰기 요청이 없습니다."
+                    : recorder.problems.length > 0
+                      ? "사이트에 쓰지 않았습니다. problems의 문제로 실제 실행은 실패할 수 있습니다."
+                      : `사이트에 쓰지 않았습니다.${serverWide ? "" : " dryRun 없이 다시 호출하면 위 요청을 보냅니다."}`,
+              }),
+            },
+          ],
+        };
+      });
+    }
+    return register(name, ...rest);
+  }) as typeof server.tool;
+}
+
+/**
+ * 승인 규칙에 걸린 쓰기 도구 호출을 실행하지 않고 승인 대기열에 넣는다. 승인되면 같은 인자로 원래 핸들러를 실행한다.
+ * 입력 오류는 대기열에 넣기 전에 바로 반환한다. dryRun 호출은 사이트에 쓰지 않으므로 규칙과 관계없이 바로 실행한다
+ */
+function requireApproval(
+  server: McpServer,
+  policy: ApprovalPolicy,
+  defaultSite: string,
+  requestedBy: string | undefined,
+  clientFor: (site: string | undefined) => WordPressClient
+) {
+  const register = server.tool.bind(server) as (name: string, ...rest: unknown[]) => RegisteredTool;
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    if (modifiesSite(name)) {
+      const handler = rest.pop() as (args: Record<string, unknown>, extra: unknown) => Promise<CallToolResult>;
+      rest.push(async (args: Record<string, unknown>, extra: unknown) => {
+        if (currentDryRun()) {
+          return handler(args, extra);
+        }
+        const site = args.site as string | undefined;
+        let action;
+        try {
+          const reasons = await approvalReasons(policy, clientFor(site), name, args);
+          if (reasons.length === 0) {
+            return handler(args, extra);
+          }
+          // 검토자가 승인해도 실패할 호출은 대기열에 넣지 않는다. 도구를 dryRun으로 실행해 입력 검증
+          // (예약 일시, 필수 필드, 카테고리/태그 해석)과 대상·참조 ID 확인을 먼저 거친다
+          const recorder = new DryRunRecorder();
+          const checked = await runDryRun(recorder, () => handler(args, extra));
+          if (recorder.requests.length === 0 && checked.isError) {
+            return checked;
+          }
+          if (recorder.problems.length > 0) {
+            throw new Error(`실행하면 실패할 작업이므로 승인 대기열에 넣지 않았습니다: ${recorder.problems.join("; ")}`);
+          }
+          action = approvals.add({ tool: name, site: site ?? defaultSite, args, reasons, requestedBy }, () =>
+            handler(args, extra)
+          );
+        } catch (err) {
+          return errorResult(err);
+        }
+        logger.info(`${name} 승인 대기: ${action.id}`, { reasons: action.reasons });
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                pending: true,
+                actionId: action.id,
+                tool: name,
+                reasons: action.reasons,
+                message: "승인이 필요한 작업이므로 실행하지 않고 승인 대기열에 넣었습니다. 검토자가 승인하면 실행됩니다.",
+              }),
+            },
+          ],
+        };
+      });
+    }
+    return register(name, ...rest);
+  }) as typeof server.tool;
+}
+
+/** 쓰기 도구가 성공하면 바뀐 리소스를 모든 세션에 알린다 */
+function trackResourceChanges(server: McpServer, defaultSite: string) {
+  const register = server.tool.bind(server) as (name: string, ...rest: unknown[]) => RegisteredTool;
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    if (modifiesSite(name)) {
+      const handler = rest.pop() as (args: Record<string, unknown>, extra: unknown) => Promise<CallToolResult>;
+      rest.push(async (args: Record<string, unknown>, extra: unknown) => {
+        const result = await handler(args, extra);
+        if (!result.isError && !currentDryRun()) {
+          const change = changedResources(name, args);
+          if (change.updated.length > 0 || change.listChanged) {
+            emitResourceChange({ site: (args.site as string | undefined) ?? defaultSite, ...change });
+          }
+        }
+        return result;
+      });
+    }
+    return register(name, ...rest);
+  }) as typeof server.tool;
+}
+
+export function createServer(config: Config, options: CreateServerOptions = {}): McpServer {
   const server = new McpServer({
     name: "wordpress-mcp-server",
     version: "1.0.0",
   });
 
-  const wp = new WordPressClient(config);
+  const credentials = options.credentials;
+  // 세션 자격 증명은 그 사용자의 계정이 있는 사이트에만 보내므로 세션의 기본 사이트도 그 사이트가 된다
+  const defaultSite = credentials?.site ?? config.defaultSite;
+
+  const scopes = options.scopes ?? ALL_SCOPES;
+  if (!ALL_SCOPES.every((scope) => scopes.includes(scope))) {
+    restrictTools(server, scopes);
+  }
+  // dryRun 컨텍스트가 승인 검사와 변경 알림보다 바깥에서 적용되도록 먼저 감싼다
+  enableDryRun(server, config.dryRun);
+  if (hasApprovalRules(config.approvalPolicy)) {
+    requireApproval(server, config.approvalPolicy, defaultSite, options.clientId, clientFor);
+  }
+  trackResourceChanges(server, defaultSite);
+
+  const sites = credentials
+    ? config.sites.filter((site) => site.name === credentials.site).map((site) => ({ ...site, auth: credentials.auth }))
+    : config.sites;
+  const clients = new Map(sites.map((site) => [site.name, new WordPressClient(site)]));
+
+  /** site 인자에 해당하는 클라이언트를 반환한다 (생략 시 기본 사이트) */
+  function clientFor(site: string | undefined): WordPressClient {
+    const name = site ?? defaultSite;
+    const client = clients.get(name);
+    if (!client && credentials && config.sites.some((configured) => configured.name === name)) {
+      throw new Error(
+        `이 세션의 WordPress 자격 증명은 ${credentials.site} 사이트 전용입니다. ${name} 사이트는 그 사이트의 자격 증명과 X-WordPress-Site 헤더로 새 세션을 시작하세요.`
+      );
+    }
+    if (!client) {
+      throw new Error(
+        `알 수 없는 사이트입니다: ${name}. 사용 가능: ${[...clients.keys()].join(", ")}`
+      );
+    }
+    return client;
+  }
+
+  const termResolvers = new Map([...clients].map(([name, client]) => [name, new TermResolver(client)]));
+
+  /** site 인자에 해당하는 term 해석기를 반환한다. 해석 결과는 이 세션 동안 캐시된다 */
+  function termsFor(site: string | undefined): TermResolver {
+    clientFor(site);
+    return termResolvers.get(site ?? defaultSite)!;
+  }
+
+  const siteSchema = z
+    .string()
+    .optional()
+    .describe(`대상 사이트 이름 (기본값: ${defaultSite}). listSites로 확인`);
+
+  // --- listSites ---
+  server.tool(
+    "listSites",
+    "이 서버에 설정된 WordPress 사이트 목록을 조회합니다. 다른 도구의 site 인자에 name을 사용합니다.",
+    {},
+    async () => {
+      logger.info("listSites 호출");
+      return {
+        content: [
+          {
+            type: "text",
+            text: jsonText(
+              sites.map((site) => ({
+                name: site.name,
+                baseUrl: site.baseUrl,
+                auth: site.auth?.type,
+                credentials: credentials ? "session" : "shared",
+                default: site.name === defaultSite,
+              }))
+            ),
+          },
+        ],
+      };
+    }
+  );
 
   // --- listPosts ---
   server.tool(
     "listPosts",
-    "WordPress 게시글 목록을 조회합니다. 페이지네이션, 검색, 상태 필터를 지원합니다.",
+    "WordPress 게시글 목록을 조회합니다. 페이지네이션, 검색, 상태/카테고리/태그/작성자/날짜 필터와 " +
+      "fields로 필요한 필드만 가져오는 기능을 지원합니다.",
     {
+      site: siteSchema,
       page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
       per_page: z
         .number()
@@ -66,21 +728,97 @@ export function createServer(config: Config): McpServer {
         .describe("페이지당 게시글 수 (기본값: 10, 최대: 100)"),
       search: z.string().optional().describe("검색어"),
       status: z
-        .enum(["publish", "draft", "pending", "private", "trash"])
+        .union([postStatusSchema, z.array(postStatusSchema).min(1)])
         .optional()
-        .describe("게시글 상태 필터"),
+        .describe("게시글 상태 필터. 배열이면 여러 상태 중 하나 (기본값: publish)"),
+      categories: z.array(idSchema).min(1).optional().describe("이 카테고리 ID가 지정된 게시글"),
+      categoriesOperator: termOperatorSchema.describe(
+        "categories 조합 방식. OR: 하나라도 포함(기본값), AND: 모두 포함 (WordPress 6.2 이상)"
+      ),
+      excludeCategories: z.array(idSchema).min(1).optional().describe("이 카테고리 ID가 지정된 게시글 제외"),
+      tags: z.array(idSchema).min(1).optional().describe("이 태그 ID가 지정된 게시글"),
+      tagsOperator: termOperatorSchema.describe(
+        "tags 조합 방식. OR: 하나라도 포함(기본값), AND: 모두 포함 (WordPress 6.2 이상)"
+      ),
+      excludeTags: z.array(idSchema).min(1).optional().describe("이 태그 ID가 지정된 게시글 제외"),
+      taxRelation: termOperatorSchema.describe(
+        "categories와 tags 필터를 함께 쓸 때 결합 방식. AND: 둘 다 만족(기본값), OR: 하나만 만족"
+      ),
+      author: z.array(idSchema).min(1).optional().describe("작성자 사용자 ID"),
+      excludeAuthor: z.array(idSchema).min(1).optional().describe("제외할 작성자 사용자 ID"),
+      after: z.string().optional().describe("이 시각 이후 발행된 게시글 (ISO 8601, 사이트 시간대)"),
+      before: z.string().optional().describe("이 시각 이전 발행된 게시글 (ISO 8601, 사이트 시간대)"),
+      modifiedAfter: z.string().optional().describe("이 시각 이후 수정된 게시글 (ISO 8601, 사이트 시간대)"),
+      modifiedBefore: z.string().optional().describe("이 시각 이전 수정된 게시글 (ISO 8601, 사이트 시간대)"),
+      sticky: z.boolean().optional().describe("true면 고정 게시글만, false면 고정 게시글 제외"),
+      include: z.array(idSchema).min(1).max(100).optional().describe("이 ID의 게시글만 조회"),
+      exclude: z.array(idSchema).min(1).optional().describe("제외할 게시글 ID"),
+      slug: z.array(z.string().min(1)).min(1).optional().describe("슬러그가 일치하는 게시글"),
       orderby: z
-        .enum(["date", "id", "title", "slug", "modified"])
+        .enum(["date", "id", "title", "slug", "modified", "include", "relevance"])
         .optional()
-        .describe("정렬 기준 (기본값: date)"),
+        .describe("정렬 기준 (기본값: date, include: include 배열 순서, relevance: search 필요)"),
       order: z.enum(["asc", "desc"]).optional().describe("정렬 방향 (기본값: desc)"),
+      fields: z
+        .array(z.enum(POST_FIELDS))
+        .min(1)
+        .optional()
+        .describe("응답에 포함할 필드. 지정하면 본문 등 나머지 필드를 가져오지 않는다 (예: [\"id\", \"title\", \"link\"])"),
+      ...paginationShape,
+      contentFormat: postContentFormatSchema,
     },
-    async (params) => {
-      logger.info("listPosts 호출", params);
+    async ({
+      site,
+      contentFormat,
+      status,
+      categoriesOperator,
+      excludeCategories,
+      tagsOperator,
+      excludeTags,
+      taxRelation,
+      excludeAuthor,
+      modifiedAfter,
+      modifiedBefore,
+      fields,
+      ...params
+    }) => {
+      logger.info("listPosts 호출", {
+        ...params,
+        status,
+        categoriesOperator,
+        excludeCategories,
+        tagsOperator,
+        excludeTags,
+        taxRelation,
+        excludeAuthor,
+        modifiedAfter,
+        modifiedBefore,
+        fields,
+        contentFormat,
+      });
       try {
-        const posts = await wp.listPosts(params);
+        const wp = clientFor(site);
+        const format = contentFormat ?? "text";
+        const posts = await wp.listPosts({
+          ...params,
+          status: Array.isArray(status) ? status.join(",") : status,
+          categories_operator: categoriesOperator,
+          categories_exclude: excludeCategories,
+          tags_operator: tagsOperator,
+          tags_exclude: excludeTags,
+          tax_relation: taxRelation,
+          author_exclude: excludeAuthor,
+          modified_after: modifiedAfter,
+          modified_before: modifiedBefore,
+          context: format === "raw" ? "edit" : undefined,
+          _fields: fields,
+        });
+        // fields를 지정하면 응답에 일부 필드만 있으므로 있는 필드만 변환한다
+        const clean = fields
+          ? (post: WPPost) => cleanItem(post, format)
+          : (post: WPPost) => cleanPost(post, format);
         return {
-          content: [{ type: "text", text: jsonText(posts.map(cleanPost)) }],
+          content: [{ type: "text", text: paginatedText(posts, clean) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -93,14 +831,18 @@ export function createServer(config: Config): McpServer {
     "getPost",
     "WordPress 게시글 하나를 ID로 조회합니다.",
     {
+      site: siteSchema,
       id: z.number().int().min(1).describe("게시글 ID"),
+      contentFormat: postContentFormatSchema,
     },
-    async ({ id }) => {
-      logger.info(`getPost 호출: id=${id}`);
+    async ({ site, id, contentFormat }) => {
+      logger.info(`getPost 호출: id=${id}, contentFormat=${contentFormat}`);
       try {
-        const post = await wp.getPost(id);
+        const wp = clientFor(site);
+        const format = contentFormat ?? "text";
+        const post = await wp.getPost(id, format === "raw" ? "edit" : "view");
         return {
-          content: [{ type: "text", text: jsonText(cleanPost(post)) }],
+          content: [{ type: "text", text: jsonText(cleanPost(post, format)) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -113,35 +855,61 @@ export function createServer(config: Config): McpServer {
     "createPost",
     "WordPress에 새 게시글을 생성합니다.",
     {
+      site: siteSchema,
       title: z.string().describe("게시글 제목"),
-      content: z.string().describe("게시글 내용 (HTML 가능)"),
+      content: z.string().describe("게시글 내용 (format에 따라 HTML 또는 Markdown)"),
       slug: z.string().optional().describe("게시글 슬러그 (URL용)"),
       status: z
-        .enum(["publish", "draft", "pending", "private"])
+        .enum(["publish", "future", "draft", "pending", "private"])
         .optional()
-        .describe("게시글 상태 (기본값: draft)"),
+        .describe("게시글 상태 (기본값: draft). future는 date에 예약 발행"),
+      date: postDateSchema,
       excerpt: z.string().optional().describe("게시글 요약"),
-      author: z.number().int().min(1).optional().describe("작성자 ID"),
+      author: z.number().int().min(1).optional().describe("작성자 ID (listUsers로 확인)"),
       featured_media: z.number().int().optional().describe("대표 이미지(미디어) ID"),
       categories: z
-        .array(z.number().int())
+        .array(termInputSchema)
         .optional()
-        .describe("카테고리 ID 배열"),
-      tags: z.array(z.number().int()).optional().describe("태그 ID 배열"),
+        .describe("카테고리 ID, 이름 또는 슬러그 배열. 하위 카테고리는 \"Tech/AI\"처럼 경로로 지정 가능"),
+      tags: z.array(termInputSchema).optional().describe("태그 ID, 이름 또는 슬러그 배열"),
+      autoCreateTerms: autoCreateTermsSchema,
+      format: contentFormatSchema,
+      styleRules: styleRulesSchema,
     },
-    async (params) => {
+    async ({ site, format, styleRules, date, categories, tags, autoCreateTerms, ...params }) => {
       logger.info("createPost 호출", {
         title: params.title,
         slug: params.slug,
         status: params.status,
+        date,
         author: params.author,
         featured_media: params.featured_media,
-        categories: params.categories,
+        categories,
+        tags,
+        autoCreateTerms,
+        format,
       });
       try {
-        const post = await wp.createPost(params);
+        const wp = clientFor(site);
+        if (params.status === "future" && date === undefined) {
+          throw new Error("status=future에는 date(예약 일시)가 필요합니다.");
+        }
+        const { created, ...terms } = await resolvePostTerms(
+          termsFor(site),
+          { categories, tags },
+          autoCreateTerms ?? false
+        );
+        const post = await wp.createPost({
+          ...params,
+          ...terms,
+          date: await resolvePostDate(wp, date, params.status),
+          content: convertContent(params.content, format, {
+            styleRules: styleRules ?? config.markdownStyleRules,
+          }),
+        });
+        const result = created.length > 0 ? { ...cleanPost(post), createdTerms: created } : cleanPost(post);
         return {
-          content: [{ type: "text", text: jsonText(cleanPost(post)) }],
+          content: [{ type: "text", text: jsonText(result) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -154,29 +922,50 @@ export function createServer(config: Config): McpServer {
     "updatePost",
     "WordPress 게시글을 수정합니다.",
     {
+      site: siteSchema,
       id: z.number().int().min(1).describe("수정할 게시글 ID"),
       title: z.string().optional().describe("변경할 제목"),
-      content: z.string().optional().describe("변경할 내용 (HTML 가능)"),
+      content: z.string().optional().describe("변경할 내용 (format에 따라 HTML 또는 Markdown)"),
       slug: z.string().optional().describe("변경할 슬러그 (URL용)"),
       status: z
-        .enum(["publish", "draft", "pending", "private"])
+        .enum(["publish", "future", "draft", "pending", "private"])
         .optional()
-        .describe("변경할 상태"),
+        .describe("변경할 상태. future는 date에 예약 발행"),
+      date: postDateSchema,
       excerpt: z.string().optional().describe("변경할 요약"),
-      author: z.number().int().min(1).optional().describe("변경할 작성자 ID"),
+      author: z.number().int().min(1).optional().describe("변경할 작성자 ID (listUsers로 확인)"),
       featured_media: z.number().int().optional().describe("변경할 대표 이미지(미디어) ID"),
       categories: z
-        .array(z.number().int())
+        .array(termInputSchema)
         .optional()
-        .describe("변경할 카테고리 ID 배열"),
-      tags: z.array(z.number().int()).optional().describe("변경할 태그 ID 배열"),
+        .describe("변경할 카테고리 ID, 이름 또는 슬러그 배열. 하위 카테고리는 \"Tech/AI\"처럼 경로로 지정 가능"),
+      tags: z.array(termInputSchema).optional().describe("변경할 태그 ID, 이름 또는 슬러그 배열"),
+      autoCreateTerms: autoCreateTermsSchema,
+      format: contentFormatSchema,
+      styleRules: styleRulesSchema,
     },
-    async ({ id, ...params }) => {
-      logger.info(`updatePost 호출: id=${id}`, params);
+    async ({ site, id, format, styleRules, date, categories, tags, autoCreateTerms, ...params }) => {
+      logger.info(`updatePost 호출: id=${id}`, { ...params, date, categories, tags, autoCreateTerms, format });
       try {
-        const post = await wp.updatePost(id, params);
+        const wp = clientFor(site);
+        if (params.content !== undefined) {
+          params.content = convertContent(params.content, format, {
+            styleRules: styleRules ?? config.markdownStyleRules,
+          });
+        }
+        const { created, ...terms } = await resolvePostTerms(
+          termsFor(site),
+          { categories, tags },
+          autoCreateTerms ?? false
+        );
+        const post = await wp.updatePost(id, {
+          ...params,
+          ...terms,
+          date: await resolvePostDate(wp, date, params.status, id),
+        });
+        const result = created.length > 0 ? { ...cleanPost(post), createdTerms: created } : cleanPost(post);
         return {
-          content: [{ type: "text", text: jsonText(cleanPost(post)) }],
+          content: [{ type: "text", text: jsonText(result) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -189,15 +978,17 @@ export function createServer(config: Config): McpServer {
     "deletePost",
     "WordPress 게시글을 삭제합니다. force=true이면 휴지통을 건너뛰고 영구 삭제합니다.",
     {
+      site: siteSchema,
       id: z.number().int().min(1).describe("삭제할 게시글 ID"),
       force: z
         .boolean()
         .optional()
         .describe("true이면 영구 삭제, false이면 휴지통 이동 (기본값: false)"),
     },
-    async ({ id, force }) => {
+    async ({ site, id, force }) => {
       logger.info(`deletePost 호출: id=${id}, force=${force}`);
       try {
+        const wp = clientFor(site);
         const result = await wp.deletePost(id, force ?? false);
         return {
           content: [
@@ -217,37 +1008,133 @@ export function createServer(config: Config): McpServer {
   );
 
   // =====================
-  // Category Tools
+  // Scheduling Tools
   // =====================
 
-  // --- listCategories ---
+  // --- getEditorialCalendar ---
   server.tool(
-    "listCategories",
-    "WordPress 카테고리 목록을 조회합니다. 페이지네이션, 검색, 정렬을 지원합니다.",
+    "getEditorialCalendar",
+    "기간 내 예약(future), 초안(draft), 검토 대기(pending) 게시글을 사이트 시간대 기준 날짜별로 조회합니다. 예약 글이 없는 날짜(openDays)도 함께 반환하므로 빈 발행 슬롯을 찾는 데 사용합니다.",
     {
-      page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
-      per_page: z
-        .number()
-        .int()
+      site: siteSchema,
+      from: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/)
+        .optional()
+        .describe("시작 날짜 YYYY-MM-DD (기본값: 오늘, 사이트 시간대)"),
+      to: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/)
+        .optional()
+        .describe("종료 날짜 YYYY-MM-DD, 포함 (기본값: 시작 날짜 + 27일)"),
+      statuses: z
+        .array(z.enum(["future", "draft", "pending", "publish"]))
         .min(1)
-        .max(100)
         .optional()
-        .describe("페이지당 카테고리 수 (기본값: 10, 최대: 100)"),
-      search: z.string().optional().describe("검색어"),
-      orderby: z
-        .enum(["id", "include", "name", "slug", "count", "description"])
+        .describe("조회할 상태 (기본값: [\"future\", \"draft\", \"pending\"])"),
+    },
+    async ({ site, from, to, statuses }) => {
+      logger.info("getEditorialCalendar 호출", { from, to, statuses });
+      try {
+        const wp = clientFor(site);
+        const tz = await wp.getSiteTimezone();
+        const start = from ?? toSiteLocal(new Date(), tz).slice(0, 10);
+        const end = to ?? new Date(Date.parse(`${start}T00:00:00Z`) + 27 * 86_400_000).toISOString().slice(0, 10);
+        const days = daysBetween(start, end);
+        if (days.length === 0) {
+          throw new Error(`종료 날짜(${end})가 시작 날짜(${start})보다 이전입니다.`);
+        }
+        if (days.length > 366) {
+          throw new Error("조회 기간은 최대 366일입니다.");
+        }
+
+        const posts = await wp.listPosts({
+          status: (statuses ?? ["future", "draft", "pending"]).join(","),
+          after: `${start}T00:00:00`,
+          before: `${end}T23:59:59`,
+          orderby: "date",
+          order: "asc",
+          all: true,
+        });
+        const byDay = new Map<string, WPPost[]>();
+        for (const post of posts.items) {
+          const day = post.date.slice(0, 10);
+          byDay.set(day, [...(byDay.get(day) ?? []), post]);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                timezone: describeTimezone(tz),
+                from: start,
+                to: end,
+                total: posts.total,
+                truncated: posts.truncated,
+                days: days
+                  .filter((day) => byDay.has(day))
+                  .map((day) => ({
+                    date: day,
+                    posts: byDay.get(day)!.map((post) => ({
+                      id: post.id,
+                      title: htmlToText(post.title.rendered),
+                      status: post.status,
+                      date: post.date,
+                      date_gmt: post.date_gmt,
+                      author: post.author,
+                      link: post.link,
+                    })),
+                  })),
+                openDays: days.filter((day) => !byDay.get(day)?.some((post) => post.status === "future")),
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- reschedulePost ---
+  server.tool(
+    "reschedulePost",
+    "게시글의 발행(예약) 일시를 변경합니다. 예약 글(future)에는 미래 일시만 지정할 수 있습니다 (지난 일시면 WordPress가 즉시 발행하므로 거부). 바로 발행하려면 updatePost에서 status=publish를 사용하세요.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
+      date: z
+        .string()
+        .describe("새 발행(예약) 일시 (ISO 8601). 오프셋이 없으면 사이트 시간대 기준 (예: 2026-11-10T09:00:00)"),
+      status: z
+        .enum(["future", "draft", "pending"])
         .optional()
-        .describe("정렬 기준 (기본값: name)"),
-      order: z.enum(["asc", "desc"]).optional().describe("정렬 방향 (기본값: asc)"),
-      hide_empty: z.boolean().optional().describe("게시글이 없는 카테고리 숨기기 (기본값: false)"),
-      parent: z.number().int().optional().describe("부모 카테고리 ID로 필터링"),
+        .describe("함께 변경할 상태 (생략 시 유지). future는 예약 발행"),
     },
-    async (params) => {
-      logger.info("listCategories 호출", params);
+    async ({ site, id, date, status }) => {
+      logger.info(`reschedulePost 호출: id=${id}, date=${date}, status=${status}`);
       try {
-        const categories = await wp.listCategories(params);
+        const wp = clientFor(site);
+        const tz = await wp.getSiteTimezone();
+        const post = await wp.updatePost(id, {
+          date: await resolvePostDate(wp, date, status, id),
+          status,
+        });
         return {
-          content: [{ type: "text", text: jsonText(categories) }],
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                id: post.id,
+                title: htmlToText(post.title.rendered),
+                status: post.status,
+                date: post.date,
+                date_gmt: post.date_gmt,
+                timezone: describeTimezone(tz),
+              }),
+            },
+          ],
         };
       } catch (err) {
         return errorResult(err);
@@ -255,19 +1142,49 @@ export function createServer(config: Config): McpServer {
     }
   );
 
-  // --- getCategory ---
+  // =====================
+  // Block Tools
+  // =====================
+
+  /** 게시글 원본 본문을 블록 단위로 편집하고 저장한 뒤 변경된 블록 목록을 반환한다 */
+  async function editPostBlocks(
+    wp: WordPressClient,
+    id: number,
+    edit: (blocks: ParsedBlock[]) => void
+  ) {
+    const post = await wp.getPost(id, "edit");
+    const blocks = contentBlocks(rawContent(post));
+    edit(blocks);
+    const updated = await wp.updatePost(id, { content: joinBlocks(blocks) });
+    return {
+      id: updated.id,
+      blocks: describeBlocks(contentBlocks(updated.content.raw ?? joinBlocks(blocks))),
+    };
+  }
+
+  const blockFormatSchema = z
+    .enum(["blocks", "markdown", "html"])
+    .optional()
+    .describe(
+      "content 형식 (기본값: blocks). blocks는 <!-- wp:... --> 블록 마크업, markdown은 블록으로 변환, html은 사용자 정의 HTML 블록으로 감싼다"
+    );
+
+  // --- getPostBlocks ---
   server.tool(
-    "getCategory",
-    "WordPress 카테고리 하나를 ID로 조회합니다.",
+    "getPostBlocks",
+    "WordPress 게시글 본문을 Gutenberg 블록 단위로 조회합니다. 반환된 index 또는 anchor로 insertBlock/replaceBlock/removeBlock을 호출합니다.",
     {
-      id: z.number().int().min(1).describe("카테고리 ID"),
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
     },
-    async ({ id }) => {
-      logger.info(`getCategory 호출: id=${id}`);
+    async ({ site, id }) => {
+      logger.info(`getPostBlocks 호출: id=${id}`);
       try {
-        const category = await wp.getCategory(id);
+        const wp = clientFor(site);
+        const post = await wp.getPost(id, "edit");
+        const blocks = contentBlocks(rawContent(post));
         return {
-          content: [{ type: "text", text: jsonText(category) }],
+          content: [{ type: "text", text: jsonText({ id: post.id, blocks: describeBlocks(blocks) }) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -275,22 +1192,37 @@ export function createServer(config: Config): McpServer {
     }
   );
 
-  // --- createCategory ---
+  // --- insertBlock ---
   server.tool(
-    "createCategory",
-    "WordPress에 새 카테고리를 생성합니다.",
+    "insertBlock",
+    "WordPress 게시글에 블록을 삽입합니다. index 또는 anchor로 기준 블록을 지정하며, 생략하면 본문 끝에 추가합니다. 나머지 블록은 변경되지 않습니다.",
     {
-      name: z.string().describe("카테고리 이름"),
-      description: z.string().optional().describe("카테고리 설명"),
-      slug: z.string().optional().describe("카테고리 슬러그 (URL용)"),
-      parent: z.number().int().min(1).optional().describe("부모 카테고리 ID (계층 구조)"),
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
+      content: z.string().describe("삽입할 내용"),
+      format: blockFormatSchema,
+      index: z.number().int().min(0).optional().describe("기준 블록 index"),
+      anchor: z.string().optional().describe("기준 블록 anchor (HTML id)"),
+      position: z
+        .enum(["before", "after"])
+        .optional()
+        .describe("기준 블록의 앞/뒤 중 삽입 위치 (기본값: after)"),
+      styleRules: styleRulesSchema,
     },
-    async (params) => {
-      logger.info("createCategory 호출", { name: params.name, parent: params.parent });
+    async ({ site, id, content, format, index, anchor, position, styleRules }) => {
+      logger.info(`insertBlock 호출: id=${id}`, { format, index, anchor, position });
       try {
-        const category = await wp.createCategory(params);
+        const wp = clientFor(site);
+        const inserted = toBlocks(content, format ?? "blocks", styleRules ?? config.markdownStyleRules);
+        const result = await editPostBlocks(wp, id, (blocks) => {
+          let at = blocks.length;
+          if (index !== undefined || anchor !== undefined) {
+            at = locateBlock(blocks, { index, anchor }) + (position === "before" ? 0 : 1);
+          }
+          blocks.splice(at, 0, ...inserted);
+        });
         return {
-          content: [{ type: "text", text: jsonText(category) }],
+          content: [{ type: "text", text: jsonText(result) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -298,23 +1230,29 @@ export function createServer(config: Config): McpServer {
     }
   );
 
-  // --- updateCategory ---
+  // --- replaceBlock ---
   server.tool(
-    "updateCategory",
-    "WordPress 카테고리를 수정합니다.",
+    "replaceBlock",
+    "WordPress 게시글의 블록 하나를 index 또는 anchor로 찾아 새 내용으로 교체합니다. 나머지 블록은 변경되지 않습니다.",
     {
-      id: z.number().int().min(1).describe("수정할 카테고리 ID"),
-      name: z.string().optional().describe("변경할 카테고리 이름"),
-      description: z.string().optional().describe("변경할 카테고리 설명"),
-      slug: z.string().optional().describe("변경할 카테고리 슬러그"),
-      parent: z.number().int().optional().describe("변경할 부모 카테고리 ID"),
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
+      content: z.string().describe("교체할 내용 (여러 블록 가능)"),
+      format: blockFormatSchema,
+      index: z.number().int().min(0).optional().describe("교체할 블록 index"),
+      anchor: z.string().optional().describe("교체할 블록 anchor (HTML id)"),
+      styleRules: styleRulesSchema,
     },
-    async ({ id, ...params }) => {
-      logger.info(`updateCategory 호출: id=${id}`, params);
+    async ({ site, id, content, format, index, anchor, styleRules }) => {
+      logger.info(`replaceBlock 호출: id=${id}`, { format, index, anchor });
       try {
-        const category = await wp.updateCategory(id, params);
+        const wp = clientFor(site);
+        const replacement = toBlocks(content, format ?? "blocks", styleRules ?? config.markdownStyleRules);
+        const result = await editPostBlocks(wp, id, (blocks) => {
+          blocks.splice(locateBlock(blocks, { index, anchor }), 1, ...replacement);
+        });
         return {
-          content: [{ type: "text", text: jsonText(category) }],
+          content: [{ type: "text", text: jsonText(result) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -322,31 +1260,25 @@ export function createServer(config: Config): McpServer {
     }
   );
 
-  // --- deleteCategory ---
+  // --- removeBlock ---
   server.tool(
-    "deleteCategory",
-    "WordPress 카테고리를 삭제합니다. 카테고리 삭제 시 force=true가 필요합니다.",
+    "removeBlock",
+    "WordPress 게시글의 블록 하나를 index 또는 anchor로 찾아 삭제합니다.",
     {
-      id: z.number().int().min(1).describe("삭제할 카테고리 ID"),
-      force: z
-        .boolean()
-        .optional()
-        .describe("true이면 영구 삭제 (기본값: false)"),
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
+      index: z.number().int().min(0).optional().describe("삭제할 블록 index"),
+      anchor: z.string().optional().describe("삭제할 블록 anchor (HTML id)"),
     },
-    async ({ id, force }) => {
-      logger.info(`deleteCategory 호출: id=${id}, force=${force}`);
+    async ({ site, id, index, anchor }) => {
+      logger.info(`removeBlock 호출: id=${id}`, { index, anchor });
       try {
-        const result = await wp.deleteCategory(id, force ?? false);
+        const wp = clientFor(site);
+        const result = await editPostBlocks(wp, id, (blocks) => {
+          blocks.splice(locateBlock(blocks, { index, anchor }), 1);
+        });
         return {
-          content: [
-            {
-              type: "text",
-              text: jsonText({
-                deleted: result.deleted,
-                category: result.previous,
-              }),
-            },
-          ],
+          content: [{ type: "text", text: jsonText(result) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -355,14 +1287,1617 @@ export function createServer(config: Config): McpServer {
   );
 
   // =====================
-  // Tag Tools
+  // Builder Tools
   // =====================
 
-  // --- listTags ---
+  /** 빌더 레이아웃을 읽어 편집하고 저장한 뒤 저장된 레이아웃을 반환한다 */
+  async function editBuilderLayout(
+    wp: WordPressClient,
+    postType: BuilderPostType,
+    id: number,
+    builder: BuilderName | undefined,
+    edit: (layout: LayoutNode[]) => void
+  ) {
+    const post = await loadBuilderPost(wp, postType, id);
+    const adapter = resolveBuilder(post, builder);
+    const layout = adapter.readLayout(post);
+    edit(layout);
+    const saved = await saveBuilderPost(wp, post, adapter.writeLayout(post, layout));
+    return { id: saved.id, builder: adapter.name, sections: describeLayout(adapter.readLayout(saved)) };
+  }
+
+  const builderSchema = z
+    .enum(["avia", "elementor", "blocks"])
+    .optional()
+    .describe("빌더 (생략하면 게시글에서 감지). avia: Enfold 쇼트코드, elementor: _elementor_data, blocks: Gutenberg/클래식");
+
+  const builderPostTypeSchema = z
+    .enum(["posts", "pages"])
+    .optional()
+    .describe("대상 유형 (기본값: posts)");
+
+  const sectionPathSchema = z.string().regex(/^\d+(\.\d+)*$/);
+
+  const layoutNodeSchema: z.ZodType<LayoutNodeInput> = z.lazy(() =>
+    z.object({
+      type: z.string().min(1).describe("요소 종류 (예: av_textblock, heading, core/paragraph, text)"),
+      id: z.string().optional().describe("빌더 요소 ID (Elementor, 생략하면 새로 생성)"),
+      attrs: z.record(z.unknown()).optional().describe("요소 속성 (Avia 쇼트코드 속성, Elementor settings, 블록 속성)"),
+      content: z.string().optional().describe("내용을 가진 요소의 본문 (children과 함께 쓸 수 없음)"),
+      children: z.array(layoutNodeSchema).optional().describe("하위 요소"),
+    })
+  );
+
+  // --- getBuilderLayout ---
   server.tool(
-    "listTags",
+    "getBuilderLayout",
+    "WordPress 게시글/페이지의 페이지 빌더 레이아웃(Avia, Elementor, Gutenberg/클래식)을 섹션 트리로 조회합니다. " +
+      "반환된 path로 insertBuilderSection/updateBuilderSection/removeBuilderSection을 호출합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글/페이지 ID"),
+      postType: builderPostTypeSchema,
+      builder: builderSchema,
+    },
+    async ({ site, id, postType, builder }) => {
+      logger.info(`getBuilderLayout 호출: id=${id}`, { postType, builder });
+      try {
+        const wp = clientFor(site);
+        const post = await loadBuilderPost(wp, postType ?? "posts", id);
+        const adapter = resolveBuilder(post, builder);
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                id: post.id,
+                builder: adapter.name,
+                label: adapter.label,
+                // blocks는 항상 감지되므로 다른 빌더가 함께 감지된 경우만 알 수 있도록 제외한다
+                detected: BUILDERS.filter((candidate) => candidate.name !== "blocks" && candidate.detect(post)).map(
+                  (candidate) => candidate.name
+                ),
+                sections: describeLayout(adapter.readLayout(post)),
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- activateBuilder ---
+  server.tool(
+    "activateBuilder",
+    "WordPress 게시글/페이지에서 페이지 빌더를 활성화합니다. (기본값: Avia)",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
+      postType: builderPostTypeSchema,
+      builder: z
+        .enum(["avia", "elementor", "blocks"])
+        .optional()
+        .describe("활성화할 빌더 (기본값: avia)"),
+    },
+    async ({ site, id, postType, builder }) => {
+      logger.info(`activateBuilder 호출: id=${id}`, { postType, builder });
+      try {
+        const wp = clientFor(site);
+        const post = await loadBuilderPost(wp, postType ?? "posts", id);
+        const result = await resolveBuilder(post, builder ?? "avia").activate(wp, post);
+        return {
+          content: [{ type: "text", text: jsonText(result) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- insertBuilderSection ---
+  server.tool(
+    "insertBuilderSection",
+    "페이지 빌더 레이아웃에 섹션(요소)을 삽입합니다. parent 경로의 하위 요소 목록(생략 시 최상위)의 index 위치에 넣으며, index를 생략하면 끝에 추가합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글/페이지 ID"),
+      postType: builderPostTypeSchema,
+      builder: builderSchema,
+      section: layoutNodeSchema.describe("삽입할 요소 (getBuilderLayout의 sections 항목과 같은 형식)"),
+      parent: sectionPathSchema.optional().describe("부모 요소 경로 (생략하면 최상위)"),
+      index: z.number().int().min(0).optional().describe("삽입 위치 (생략하면 끝)"),
+    },
+    async ({ site, id, postType, builder, section, parent, index }) => {
+      logger.info(`insertBuilderSection 호출: id=${id}`, { postType, builder, type: section.type, parent, index });
+      try {
+        const wp = clientFor(site);
+        const result = await editBuilderLayout(wp, postType ?? "posts", id, builder, (layout) => {
+          const siblings = childrenAt(layout, parent);
+          siblings.splice(Math.min(index ?? siblings.length, siblings.length), 0, toLayoutNode(section));
+        });
+        return {
+          content: [{ type: "text", text: jsonText(result) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- updateBuilderSection ---
+  server.tool(
+    "updateBuilderSection",
+    "페이지 빌더 레이아웃의 요소 하나를 path로 찾아 속성이나 내용을 수정합니다. attrs는 기존 속성에 병합되며(null이면 속성 삭제), " +
+      "replace를 지정하면 요소 전체를 교체합니다. 나머지 요소는 변경되지 않습니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글/페이지 ID"),
+      postType: builderPostTypeSchema,
+      builder: builderSchema,
+      path: sectionPathSchema.describe("수정할 요소 경로 (getBuilderLayout의 path, 예: 0.1.2)"),
+      attrs: z.record(z.unknown()).optional().describe("병합할 속성. 값이 null이면 해당 속성 삭제"),
+      content: z.string().optional().describe("변경할 본문 (내용을 가진 요소)"),
+      replace: layoutNodeSchema.optional().describe("요소 전체를 교체할 새 요소"),
+    },
+    async ({ site, id, postType, builder, path, attrs, content, replace }) => {
+      logger.info(`updateBuilderSection 호출: id=${id}`, { postType, builder, path, replace: replace?.type });
+      try {
+        const wp = clientFor(site);
+        if (!replace && attrs === undefined && content === undefined) {
+          throw new Error("attrs, content, replace 중 하나 이상을 지정해야 합니다.");
+        }
+        const result = await editBuilderLayout(wp, postType ?? "posts", id, builder, (layout) => {
+          const { siblings, index } = locateNode(layout, path);
+          if (replace) {
+            siblings[index] = toLayoutNode(replace);
+            return;
+          }
+          const node = siblings[index];
+          for (const [key, value] of Object.entries(attrs ?? {})) {
+            if (value === null) delete node.attrs[key];
+            else node.attrs[key] = value;
+          }
+          if (content !== undefined) {
+            if (node.children && node.children.length > 0) {
+              throw new Error(`경로 "${path}"의 요소(${node.type})는 하위 요소를 가진 요소라 content를 지정할 수 없습니다.`);
+            }
+            delete node.children;
+            node.content = content;
+          }
+        });
+        return {
+          content: [{ type: "text", text: jsonText(result) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- removeBuilderSection ---
+  server.tool(
+    "removeBuilderSection",
+    "페이지 빌더 레이아웃의 요소 하나를 path로 찾아 하위 요소와 함께 삭제합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글/페이지 ID"),
+      postType: builderPostTypeSchema,
+      builder: builderSchema,
+      path: sectionPathSchema.describe("삭제할 요소 경로 (getBuilderLayout의 path)"),
+    },
+    async ({ site, id, postType, builder, path }) => {
+      logger.info(`removeBuilderSection 호출: id=${id}`, { postType, builder, path });
+      try {
+        const wp = clientFor(site);
+        const result = await editBuilderLayout(wp, postType ?? "posts", id, builder, (layout) => {
+          const { siblings, index } = locateNode(layout, path);
+          siblings.splice(index, 1);
+        });
+        return {
+          content: [{ type: "text", text: jsonText(result) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // Revision Tools
+  // =====================
+
+  // --- listRevisions ---
+  server.tool(
+    "listRevisions",
+    "WordPress 게시글의 리비전(수정 이력) 목록을 최신순으로 조회합니다. 본문은 getRevision 또는 diffRevisions로 확인합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
+      page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
+      per_page: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("페이지당 리비전 수 (기본값: 10, 최대: 100)"),
+      ...paginationShape,
+    },
+    async ({ site, id, ...params }) => {
+      logger.info(`listRevisions 호출: id=${id}`, params);
+      try {
+        const wp = clientFor(site);
+        const revisions = await wp.listRevisions(id, params);
+        return {
+          content: [{ type: "text", text: paginatedText(revisions, summarizeRevision) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- getRevision ---
+  server.tool(
+    "getRevision",
+    "WordPress 게시글의 리비전 하나를 조회합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
+      revisionId: z.number().int().min(1).describe("리비전 ID (listRevisions로 확인)"),
+      contentFormat: postContentFormatSchema,
+    },
+    async ({ site, id, revisionId, contentFormat }) => {
+      logger.info(`getRevision 호출: id=${id}, revisionId=${revisionId}`);
+      try {
+        const wp = clientFor(site);
+        const format = contentFormat ?? "text";
+        const revision = await wp.getRevision(id, revisionId, format === "raw" ? "edit" : "view");
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({ ...summarizeRevision(revision), ...revisionFields(revision, format) }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- diffRevisions ---
+  server.tool(
+    "diffRevisions",
+    "WordPress 게시글의 두 리비전, 또는 리비전과 현재 게시글을 비교하여 제목/본문/요약의 변경 내용을 unified diff로 반환합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
+      from: z.number().int().min(1).describe("비교 기준(이전) 리비전 ID"),
+      to: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("비교 대상 리비전 ID (생략 시 현재 게시글과 비교)"),
+      contentFormat: z
+        .enum(["text", "markdown", "raw"])
+        .optional()
+        .describe("비교 형식 (기본값: text). raw는 블록 주석을 포함한 저장 원본을 비교"),
+    },
+    async ({ site, id, from, to, contentFormat }) => {
+      logger.info(`diffRevisions 호출: id=${id}, from=${from}, to=${to ?? "current"}`);
+      try {
+        const wp = clientFor(site);
+        const format = contentFormat ?? "text";
+        const context = format === "raw" ? "edit" : "view";
+        const [before, after] = await Promise.all([
+          wp.getRevision(id, from, context),
+          to !== undefined ? wp.getRevision(id, to, context) : wp.getPost(id, context),
+        ]);
+        const fromLabel = `revision ${from}`;
+        const toLabel = to !== undefined ? `revision ${to}` : "current";
+        const oldFields = revisionFields(before, format);
+        const newFields = revisionFields(after, format);
+        const fields = (["title", "content", "excerpt"] as const).map((field) => {
+          const { diff, added, removed } = unifiedDiff(oldFields[field], newFields[field], {
+            from: `${fromLabel} ${field}`,
+            to: `${toLabel} ${field}`,
+          });
+          return { field, changed: diff !== "", added, removed, diff };
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                post: id,
+                from,
+                to: to ?? "current",
+                changed: fields.some((field) => field.changed),
+                fields: fields.filter((field) => field.changed),
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- restoreRevision ---
+  server.tool(
+    "restoreRevision",
+    "WordPress 게시글을 선택한 리비전의 제목/본문/요약으로 되돌립니다. 복원 전 상태도 새 리비전으로 남으므로 다시 되돌릴 수 있습니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("게시글 ID"),
+      revisionId: z.number().int().min(1).describe("복원할 리비전 ID"),
+    },
+    async ({ site, id, revisionId }) => {
+      logger.info(`restoreRevision 호출: id=${id}, revisionId=${revisionId}`);
+      try {
+        const wp = clientFor(site);
+        const post = await wp.restoreRevision(id, revisionId);
+        return {
+          content: [{ type: "text", text: jsonText({ restoredFrom: revisionId, post: cleanPost(post) }) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // Page Tools
+  // =====================
+
+  // --- listPages ---
+  server.tool(
+    "listPages",
+    "WordPress 페이지 목록을 조회합니다. 페이지네이션, 검색, 상태, 부모 페이지 필터를 지원합니다.",
+    {
+      site: siteSchema,
+      page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
+      per_page: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("페이지당 항목 수 (기본값: 10, 최대: 100)"),
+      search: z.string().optional().describe("검색어"),
+      status: z
+        .enum(["publish", "draft", "pending", "private", "trash"])
+        .optional()
+        .describe("페이지 상태 필터"),
+      parent: z.number().int().min(0).optional().describe("부모 페이지 ID로 필터링 (0이면 최상위)"),
+      orderby: z
+        .enum(["date", "id", "title", "slug", "modified", "menu_order"])
+        .optional()
+        .describe("정렬 기준 (기본값: date)"),
+      order: z.enum(["asc", "desc"]).optional().describe("정렬 방향 (기본값: desc)"),
+      ...paginationShape,
+      contentFormat: postContentFormatSchema,
+    },
+    async ({ site, contentFormat, ...params }) => {
+      logger.info("listPages 호출", { ...params, contentFormat });
+      try {
+        const wp = clientFor(site);
+        const format = contentFormat ?? "text";
+        const pages = await wp.listPages({
+          ...params,
+          context: format === "raw" ? "edit" : undefined,
+        });
+        return {
+          content: [
+            { type: "text", text: paginatedText(pages, (page) => cleanPage(page, format)) },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- getPage ---
+  server.tool(
+    "getPage",
+    "WordPress 페이지 하나를 ID로 조회합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("페이지 ID"),
+      contentFormat: postContentFormatSchema,
+    },
+    async ({ site, id, contentFormat }) => {
+      logger.info(`getPage 호출: id=${id}, contentFormat=${contentFormat}`);
+      try {
+        const wp = clientFor(site);
+        const format = contentFormat ?? "text";
+        const page = await wp.getPage(id, format === "raw" ? "edit" : "view");
+        return {
+          content: [{ type: "text", text: jsonText(cleanPage(page, format)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- createPage ---
+  server.tool(
+    "createPage",
+    "WordPress에 새 페이지를 생성합니다. parent로 계층 구조를, menu_order로 정렬 순서를 지정합니다.",
+    {
+      site: siteSchema,
+      title: z.string().describe("페이지 제목"),
+      content: z.string().describe("페이지 내용 (format에 따라 HTML 또는 Markdown)"),
+      slug: z.string().optional().describe("페이지 슬러그 (URL용)"),
+      status: z
+        .enum(["publish", "draft", "pending", "private"])
+        .optional()
+        .describe("페이지 상태 (기본값: draft)"),
+      excerpt: z.string().optional().describe("페이지 요약"),
+      author: z.number().int().min(1).optional().describe("작성자 ID"),
+      featured_media: z.number().int().optional().describe("대표 이미지(미디어) ID"),
+      parent: z.number().int().min(0).optional().describe("부모 페이지 ID"),
+      menu_order: z.number().int().optional().describe("정렬 순서"),
+      template: z.string().optional().describe("페이지 템플릿 파일명"),
+      format: contentFormatSchema,
+      styleRules: styleRulesSchema,
+    },
+    async ({ site, format, styleRules, ...params }) => {
+      logger.info("createPage 호출", {
+        title: params.title,
+        slug: params.slug,
+        status: params.status,
+        parent: params.parent,
+        format,
+      });
+      try {
+        const wp = clientFor(site);
+        const page = await wp.createPage({
+          ...params,
+          content: convertContent(params.content, format, {
+            styleRules: styleRules ?? config.markdownStyleRules,
+          }),
+        });
+        return {
+          content: [{ type: "text", text: jsonText(cleanPage(page)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- updatePage ---
+  server.tool(
+    "updatePage",
+    "WordPress 페이지를 수정합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("수정할 페이지 ID"),
+      title: z.string().optional().describe("변경할 제목"),
+      content: z.string().optional().describe("변경할 내용 (format에 따라 HTML 또는 Markdown)"),
+      slug: z.string().optional().describe("변경할 슬러그 (URL용)"),
+      status: z
+        .enum(["publish", "draft", "pending", "private"])
+        .optional()
+        .describe("변경할 상태"),
+      excerpt: z.string().optional().describe("변경할 요약"),
+      author: z.number().int().min(1).optional().describe("변경할 작성자 ID"),
+      featured_media: z.number().int().optional().describe("변경할 대표 이미지(미디어) ID"),
+      parent: z.number().int().min(0).optional().describe("변경할 부모 페이지 ID (0이면 최상위)"),
+      menu_order: z.number().int().optional().describe("변경할 정렬 순서"),
+      template: z.string().optional().describe("변경할 페이지 템플릿 파일명"),
+      format: contentFormatSchema,
+      styleRules: styleRulesSchema,
+    },
+    async ({ site, id, format, styleRules, ...params }) => {
+      logger.info(`updatePage 호출: id=${id}`, { ...params, format });
+      try {
+        const wp = clientFor(site);
+        if (params.content !== undefined) {
+          params.content = convertContent(params.content, format, {
+            styleRules: styleRules ?? config.markdownStyleRules,
+          });
+        }
+        const page = await wp.updatePage(id, params);
+        return {
+          content: [{ type: "text", text: jsonText(cleanPage(page)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- deletePage ---
+  server.tool(
+    "deletePage",
+    "WordPress 페이지를 삭제합니다. force=true이면 휴지통을 건너뛰고 영구 삭제합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("삭제할 페이지 ID"),
+      force: z
+        .boolean()
+        .optional()
+        .describe("true이면 영구 삭제, false이면 휴지통 이동 (기본값: false)"),
+    },
+    async ({ site, id, force }) => {
+      logger.info(`deletePage 호출: id=${id}, force=${force}`);
+      try {
+        const wp = clientFor(site);
+        const result = await wp.deletePage(id, force ?? false);
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                deleted: result.deleted,
+                page: cleanPage(result.previous),
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // Post Type / Taxonomy Tools
+  // =====================
+
+  // --- listPostTypes ---
+  server.tool(
+    "listPostTypes",
+    "REST API에 노출된 포스트 타입(게시글, 페이지, 상품, 이벤트 등)과 택소노미 목록을 조회합니다. 반환된 restBase를 listItems 등의 type으로 사용합니다.",
+    {
+      site: siteSchema,
+    },
+    async ({ site }) => {
+      logger.info("listPostTypes 호출");
+      try {
+        const wp = clientFor(site);
+        const resources = await wp.listResources();
+        return {
+          content: [{ type: "text", text: jsonText(resources) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- listTaxonomies ---
+  server.tool(
+    "listTaxonomies",
+    "WordPress 택소노미(카테고리, 태그, 커스텀 택소노미) 목록을 조회합니다.",
+    {
+      site: siteSchema,
+      type: z.string().optional().describe("이 포스트 타입에 연결된 택소노미만 조회 (예: product)"),
+    },
+    async ({ site, type }) => {
+      logger.info(`listTaxonomies 호출: type=${type}`);
+      try {
+        const wp = clientFor(site);
+        const taxonomies = await wp.listTaxonomies(type);
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText(
+                Object.values(taxonomies).map((t) => ({
+                  slug: t.slug,
+                  name: t.name,
+                  description: t.description,
+                  hierarchical: t.hierarchical,
+                  restBase: t.rest_base,
+                  namespace: t.rest_namespace || "wp/v2",
+                  types: t.types,
+                }))
+              ),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  const itemTypeSchema = z
+    .string()
+    .describe("포스트 타입 또는 택소노미의 slug/rest_base (예: pages, product, genre). listPostTypes로 확인");
+
+  // --- listItems ---
+  server.tool(
+    "listItems",
+    "임의의 포스트 타입 또는 택소노미 항목 목록을 조회합니다. 커스텀 포스트 타입(상품, 이벤트, 문서 등)과 커스텀 택소노미를 지원합니다.",
+    {
+      site: siteSchema,
+      type: itemTypeSchema,
+      page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
+      per_page: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("페이지당 항목 수 (기본값: 10, 최대: 100)"),
+      search: z.string().optional().describe("검색어"),
+      status: z.string().optional().describe("상태 필터 (포스트 타입만)"),
+      parent: z.number().int().min(0).optional().describe("부모 ID로 필터링 (계층형만)"),
+      orderby: z.string().optional().describe("정렬 기준"),
+      order: z.enum(["asc", "desc"]).optional().describe("정렬 방향"),
+      ...paginationShape,
+      filters: z
+        .record(z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))]))
+        .optional()
+        .describe("추가 쿼리 파라미터 (예: { \"genre\": [3, 5] })"),
+      contentFormat: postContentFormatSchema,
+    },
+    async ({ site, type, contentFormat, ...params }) => {
+      logger.info(`listItems 호출: type=${type}`, { ...params, contentFormat });
+      try {
+        const wp = clientFor(site);
+        const format = contentFormat ?? "text";
+        const items = await wp.listItems(type, {
+          ...params,
+          context: format === "raw" ? "edit" : undefined,
+        });
+        return {
+          content: [
+            { type: "text", text: paginatedText(items, (item) => cleanItem(item, format)) },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- getItem ---
+  server.tool(
+    "getItem",
+    "임의의 포스트 타입 또는 택소노미 항목 하나를 ID로 조회합니다.",
+    {
+      site: siteSchema,
+      type: itemTypeSchema,
+      id: z.number().int().min(1).describe("항목 ID"),
+      contentFormat: postContentFormatSchema,
+    },
+    async ({ site, type, id, contentFormat }) => {
+      logger.info(`getItem 호출: type=${type}, id=${id}`);
+      try {
+        const wp = clientFor(site);
+        const format = contentFormat ?? "text";
+        const item = await wp.getItem(type, id, format === "raw" ? "edit" : "view");
+        return {
+          content: [{ type: "text", text: jsonText(cleanItem(item, format)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  const itemFieldsSchema = z
+    .record(z.unknown())
+    .describe("REST API에 그대로 전달할 필드 (예: { \"title\": \"...\", \"content\": \"...\", \"status\": \"draft\" })");
+
+  // --- createItem ---
+  server.tool(
+    "createItem",
+    "임의의 포스트 타입 또는 택소노미에 새 항목을 생성합니다.",
+    {
+      site: siteSchema,
+      type: itemTypeSchema,
+      fields: itemFieldsSchema,
+      format: contentFormatSchema,
+      styleRules: styleRulesSchema,
+    },
+    async ({ site, type, fields, format, styleRules }) => {
+      logger.info(`createItem 호출: type=${type}`, { fields: Object.keys(fields), format });
+      try {
+        const wp = clientFor(site);
+        if (typeof fields.content === "string") {
+          fields.content = convertContent(fields.content, format, {
+            styleRules: styleRules ?? config.markdownStyleRules,
+          });
+        }
+        const item = await wp.createItem(type, fields);
+        return {
+          content: [{ type: "text", text: jsonText(cleanItem(item)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- updateItem ---
+  server.tool(
+    "updateItem",
+    "임의의 포스트 타입 또는 택소노미 항목을 수정합니다. 전달된 필드만 변경됩니다.",
+    {
+      site: siteSchema,
+      type: itemTypeSchema,
+      id: z.number().int().min(1).describe("수정할 항목 ID"),
+      fields: itemFieldsSchema,
+      format: contentFormatSchema,
+      styleRules: styleRulesSchema,
+    },
+    async ({ site, type, id, fields, format, styleRules }) => {
+      logger.info(`updateItem 호출: type=${type}, id=${id}`, { fields: Object.keys(fields), format });
+      try {
+        const wp = clientFor(site);
+        if (typeof fields.content === "string") {
+          fields.content = convertContent(fields.content, format, {
+            styleRules: styleRules ?? config.markdownStyleRules,
+          });
+        }
+        const item = await wp.updateItem(type, id, fields);
+        return {
+          content: [{ type: "text", text: jsonText(cleanItem(item)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- deleteItem ---
+  server.tool(
+    "deleteItem",
+    "임의의 포스트 타입 또는 택소노미 항목을 삭제합니다. 택소노미 항목과 휴지통을 지원하지 않는 타입은 force=true가 필요합니다.",
+    {
+      site: siteSchema,
+      type: itemTypeSchema,
+      id: z.number().int().min(1).describe("삭제할 항목 ID"),
+      force: z
+        .boolean()
+        .optional()
+        .describe("true이면 영구 삭제, false이면 휴지통 이동 (기본값: false)"),
+    },
+    async ({ site, type, id, force }) => {
+      logger.info(`deleteItem 호출: type=${type}, id=${id}, force=${force}`);
+      try {
+        const wp = clientFor(site);
+        const result = await wp.deleteItem(type, id, force ?? false);
+        // 영구 삭제는 { deleted, previous }, 휴지통 이동은 항목 자체를 반환한다
+        const item = (result.previous ?? result) as WPItem;
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                deleted: result.deleted ?? false,
+                trashed: result.previous === undefined,
+                item: cleanItem(item),
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // Custom Field Tools
+  // =====================
+
+  const fieldItemTypeSchema = z
+    .string()
+    .optional()
+    .describe("포스트 타입 slug/rest_base (기본값: posts). 예: pages, product");
+
+  // --- listMetaFields ---
+  server.tool(
+    "listMetaFields",
+    "포스트 타입에서 사용할 수 있는 사용자 정의 필드를 조회합니다. REST에 등록된 post meta 키와 ACF 필드(REST 출력이 켜진 필드 그룹)의 타입, 설명, 기본값, 허용 값을 반환합니다.",
+    {
+      site: siteSchema,
+      type: fieldItemTypeSchema,
+    },
+    async ({ site, type }) => {
+      logger.info(`listMetaFields 호출: type=${type}`);
+      try {
+        const wp = clientFor(site);
+        const schema = await wp.getItemSchema(type ?? "posts");
+        const { meta, acf } = schema.properties;
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                type: type ?? "posts",
+                meta: describeFields(meta?.properties),
+                // acf 속성이 없으면 ACF가 없거나 REST 출력이 꺼진 사이트
+                acf: acf ? describeFields(acf.properties) : null,
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- getPostMeta ---
+  server.tool(
+    "getPostMeta",
+    "게시글(또는 다른 포스트 타입 항목)의 post meta와 ACF 필드 값을 조회합니다.",
+    {
+      site: siteSchema,
+      type: fieldItemTypeSchema,
+      id: z.number().int().min(1).describe("게시글/항목 ID"),
+      keys: z.array(z.string().min(1)).optional().describe("조회할 키 (생략하면 전체)"),
+    },
+    async ({ site, type, id, keys }) => {
+      logger.info(`getPostMeta 호출: type=${type}, id=${id}`, { keys });
+      try {
+        const wp = clientFor(site);
+        const item = await wp.getItemFields(type ?? "posts", id);
+        const pick = (fields: Record<string, unknown> | undefined) =>
+          fields && keys ? Object.fromEntries(Object.entries(fields).filter(([key]) => keys.includes(key))) : fields;
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({ id: item.id, meta: pick(item.meta) ?? {}, acf: pick(item.acf) ?? null }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- updatePostMeta ---
+  server.tool(
+    "updatePostMeta",
+    "게시글(또는 다른 포스트 타입 항목)의 post meta와 ACF 필드 값을 변경합니다. 저장 전에 포스트 타입 스키마로 키와 값의 타입을 검증하며, " +
+      "값이 null이면 해당 meta를 삭제합니다.",
+    {
+      site: siteSchema,
+      type: fieldItemTypeSchema,
+      id: z.number().int().min(1).describe("게시글/항목 ID"),
+      meta: z.record(z.unknown()).optional().describe("변경할 post meta (키: 값)"),
+      acf: z.record(z.unknown()).optional().describe("변경할 ACF 필드 (필드 이름: 값)"),
+    },
+    async ({ site, type, id, meta, acf }) => {
+      logger.info(`updatePostMeta 호출: type=${type}, id=${id}`, {
+        meta: meta && Object.keys(meta),
+        acf: acf && Object.keys(acf),
+      });
+      try {
+        const wp = clientFor(site);
+        if (!meta && !acf) {
+          throw new Error("meta 또는 acf 중 하나 이상을 지정해야 합니다.");
+        }
+        const resource = type ?? "posts";
+        const schema = await wp.getItemSchema(resource);
+        const errors: string[] = [];
+        if (meta) {
+          errors.push(...validateFields(meta, schema.properties.meta?.properties ?? {}, "meta"));
+        }
+        if (acf) {
+          if (!schema.properties.acf) {
+            errors.push("acf: 이 포스트 타입에는 REST로 노출된 ACF 필드가 없습니다. 필드 그룹의 REST API 표시 설정을 확인하세요.");
+          } else {
+            errors.push(...validateFields(acf, schema.properties.acf.properties ?? {}, "acf"));
+          }
+        }
+        if (errors.length > 0) {
+          throw new Error(`필드 값 검증에 실패했습니다.\n- ${errors.join("\n- ")}`);
+        }
+
+        const item = await wp.updateItem(resource, id, { meta, acf });
+        const saved = (fields: unknown, keys: string[]) =>
+          Object.fromEntries(keys.map((key) => [key, (fields as Record<string, unknown> | undefined)?.[key]]));
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                id: item.id,
+                meta: meta ? saved(item.meta, Object.keys(meta)) : undefined,
+                acf: acf ? saved(item.acf, Object.keys(acf)) : undefined,
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // Category Tools
+  // =====================
+
+  // --- listCategories ---
+  server.tool(
+    "listCategories",
+    "WordPress 카테고리 목록을 조회합니다. 페이지네이션, 검색, 정렬을 지원합니다.",
+    {
+      site: siteSchema,
+      page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
+      per_page: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("페이지당 카테고리 수 (기본값: 10, 최대: 100)"),
+      search: z.string().optional().describe("검색어"),
+      orderby: z
+        .enum(["id", "include", "name", "slug", "count", "description"])
+        .optional()
+        .describe("정렬 기준 (기본값: name)"),
+      order: z.enum(["asc", "desc"]).optional().describe("정렬 방향 (기본값: asc)"),
+      ...paginationShape,
+      hide_empty: z.boolean().optional().describe("게시글이 없는 카테고리 숨기기 (기본값: false)"),
+      parent: z.number().int().optional().describe("부모 카테고리 ID로 필터링"),
+    },
+    async ({ site, ...params }) => {
+      logger.info("listCategories 호출", params);
+      try {
+        const wp = clientFor(site);
+        const categories = await wp.listCategories(params);
+        return {
+          content: [{ type: "text", text: paginatedText(categories, (category) => category) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- getCategory ---
+  server.tool(
+    "getCategory",
+    "WordPress 카테고리 하나를 ID로 조회합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("카테고리 ID"),
+    },
+    async ({ site, id }) => {
+      logger.info(`getCategory 호출: id=${id}`);
+      try {
+        const wp = clientFor(site);
+        const category = await wp.getCategory(id);
+        return {
+          content: [{ type: "text", text: jsonText(category) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- createCategory ---
+  server.tool(
+    "createCategory",
+    "WordPress에 새 카테고리를 생성합니다.",
+    {
+      site: siteSchema,
+      name: z.string().describe("카테고리 이름"),
+      description: z.string().optional().describe("카테고리 설명"),
+      slug: z.string().optional().describe("카테고리 슬러그 (URL용)"),
+      parent: z.number().int().min(1).optional().describe("부모 카테고리 ID (계층 구조)"),
+    },
+    async ({ site, ...params }) => {
+      logger.info("createCategory 호출", { name: params.name, parent: params.parent });
+      try {
+        const wp = clientFor(site);
+        const category = await wp.createCategory(params);
+        return {
+          content: [{ type: "text", text: jsonText(category) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- updateCategory ---
+  server.tool(
+    "updateCategory",
+    "WordPress 카테고리를 수정합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("수정할 카테고리 ID"),
+      name: z.string().optional().describe("변경할 카테고리 이름"),
+      description: z.string().optional().describe("변경할 카테고리 설명"),
+      slug: z.string().optional().describe("변경할 카테고리 슬러그"),
+      parent: z.number().int().optional().describe("변경할 부모 카테고리 ID"),
+    },
+    async ({ site, id, ...params }) => {
+      logger.info(`updateCategory 호출: id=${id}`, params);
+      try {
+        const wp = clientFor(site);
+        const category = await wp.updateCategory(id, params);
+        return {
+          content: [{ type: "text", text: jsonText(category) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- deleteCategory ---
+  server.tool(
+    "deleteCategory",
+    "WordPress 카테고리를 삭제합니다. 카테고리 삭제 시 force=true가 필요합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("삭제할 카테고리 ID"),
+      force: z
+        .boolean()
+        .optional()
+        .describe("true이면 영구 삭제 (기본값: false)"),
+    },
+    async ({ site, id, force }) => {
+      logger.info(`deleteCategory 호출: id=${id}, force=${force}`);
+      try {
+        const wp = clientFor(site);
+        const result = await wp.deleteCategory(id, force ?? false);
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                deleted: result.deleted,
+                category: result.previous,
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // Tag Tools
+  // =====================
+
+  // --- listTags ---
+  server.tool(
+    "listTags",
     "WordPress 태그 목록을 조회합니다. 페이지네이션, 검색, 정렬을 지원합니다.",
     {
+      site: siteSchema,
+      page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
+      per_page: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("페이지당 태그 수 (기본값: 10, 최대: 100)"),
+      search: z.string().optional().describe("검색어"),
+      orderby: z
+        .enum(["id", "include", "name", "slug", "count", "description"])
+        .optional()
+        .describe("정렬 기준 (기본값: name)"),
+      order: z.enum(["asc", "desc"]).optional().describe("정렬 방향 (기본값: asc)"),
+      ...paginationShape,
+      hide_empty: z.boolean().optional().describe("게시글이 없는 태그 숨기기 (기본값: false)"),
+    },
+    async ({ site, ...params }) => {
+      logger.info("listTags 호출", params);
+      try {
+        const wp = clientFor(site);
+        const tags = await wp.listTags(params);
+        return {
+          content: [{ type: "text", text: paginatedText(tags, (tag) => tag) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- getTag ---
+  server.tool(
+    "getTag",
+    "WordPress 태그 하나를 ID로 조회합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("태그 ID"),
+    },
+    async ({ site, id }) => {
+      logger.info(`getTag 호출: id=${id}`);
+      try {
+        const wp = clientFor(site);
+        const tag = await wp.getTag(id);
+        return {
+          content: [{ type: "text", text: jsonText(tag) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- createTag ---
+  server.tool(
+    "createTag",
+    "WordPress에 새 태그를 생성합니다.",
+    {
+      site: siteSchema,
+      name: z.string().describe("태그 이름"),
+      description: z.string().optional().describe("태그 설명"),
+      slug: z.string().optional().describe("태그 슬러그 (URL용)"),
+    },
+    async ({ site, ...params }) => {
+      logger.info("createTag 호출", { name: params.name });
+      try {
+        const wp = clientFor(site);
+        const tag = await wp.createTag(params);
+        return {
+          content: [{ type: "text", text: jsonText(tag) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- updateTag ---
+  server.tool(
+    "updateTag",
+    "WordPress 태그를 수정합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("수정할 태그 ID"),
+      name: z.string().optional().describe("변경할 태그 이름"),
+      description: z.string().optional().describe("변경할 태그 설명"),
+      slug: z.string().optional().describe("변경할 태그 슬러그"),
+    },
+    async ({ site, id, ...params }) => {
+      logger.info(`updateTag 호출: id=${id}`, params);
+      try {
+        const wp = clientFor(site);
+        const tag = await wp.updateTag(id, params);
+        return {
+          content: [{ type: "text", text: jsonText(tag) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- deleteTag ---
+  server.tool(
+    "deleteTag",
+    "WordPress 태그를 삭제합니다. 태그 삭제 시 force=true가 필요합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("삭제할 태그 ID"),
+      force: z
+        .boolean()
+        .optional()
+        .describe("true이면 영구 삭제 (기본값: false)"),
+    },
+    async ({ site, id, force }) => {
+      logger.info(`deleteTag 호출: id=${id}, force=${force}`);
+      try {
+        const wp = clientFor(site);
+        const result = await wp.deleteTag(id, force ?? false);
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                deleted: result.deleted,
+                tag: result.previous,
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // Media Tools
+  // =====================
+
+  // --- listMedia ---
+  server.tool(
+    "listMedia",
+    "WordPress 미디어 라이브러리 목록을 조회합니다. 페이지네이션, 검색, 형식 필터를 지원합니다.",
+    {
+      site: siteSchema,
+      page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
+      per_page: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("페이지당 미디어 수 (기본값: 10, 최대: 100)"),
+      search: z.string().optional().describe("검색어"),
+      media_type: z
+        .enum(["image", "video", "text", "application", "audio"])
+        .optional()
+        .describe("미디어 유형 필터"),
+      mime_type: z.string().optional().describe("MIME 타입 필터 (예: image/png)"),
+      parent: z.number().int().optional().describe("첨부된 게시글 ID로 필터링"),
+      orderby: z
+        .enum(["date", "id", "title", "slug", "modified"])
+        .optional()
+        .describe("정렬 기준 (기본값: date)"),
+      order: z.enum(["asc", "desc"]).optional().describe("정렬 방향 (기본값: desc)"),
+      ...paginationShape,
+    },
+    async ({ site, ...params }) => {
+      logger.info("listMedia 호출", params);
+      try {
+        const wp = clientFor(site);
+        const media = await wp.listMedia(params);
+        return {
+          content: [{ type: "text", text: paginatedText(media, cleanMedia) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- getMedia ---
+  server.tool(
+    "getMedia",
+    "WordPress 미디어 하나를 ID로 조회합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("미디어 ID"),
+    },
+    async ({ site, id }) => {
+      logger.info(`getMedia 호출: id=${id}`);
+      try {
+        const wp = clientFor(site);
+        const media = await wp.getMedia(id);
+        return {
+          content: [{ type: "text", text: jsonText(cleanMedia(media)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- uploadMedia ---
+  server.tool(
+    "uploadMedia",
+    "WordPress 미디어 라이브러리에 파일을 업로드합니다. data(base64), filePath(서버의 업로드 디렉터리 안 파일), url(공개 원격 파일) 중 하나를 지정합니다. 반환된 id를 createPost/updatePost의 featured_media로 사용할 수 있습니다.",
+    {
+      site: siteSchema,
+      data: z.string().optional().describe("base64 인코딩된 파일 내용 (data URI 허용)"),
+      filePath: z
+        .string()
+        .optional()
+        .describe("MCP 서버의 MEDIA_UPLOAD_DIR 안의 파일 경로 (상대 경로는 그 디렉터리 기준, STDIO 모드 전용)"),
+      url: z.string().url().optional().describe("다운로드하여 업로드할 원격 파일 URL"),
+      filename: z
+        .string()
+        .optional()
+        .describe("업로드 파일명 (data 사용 시 필수, 그 외에는 출처에서 추론)"),
+      mimeType: z.string().optional().describe("MIME 타입 (생략 시 자동 추론)"),
+      title: z.string().optional().describe("미디어 제목"),
+      caption: z.string().optional().describe("캡션"),
+      description: z.string().optional().describe("설명"),
+      alt_text: z.string().optional().describe("대체 텍스트 (alt)"),
+      post: z.number().int().min(1).optional().describe("첨부할 게시글 ID"),
+    },
+    async ({ site, data, filePath, url, filename, mimeType, ...params }) => {
+      logger.info("uploadMedia 호출", {
+        source: data !== undefined ? "data" : filePath !== undefined ? "filePath" : "url",
+        filePath,
+        url,
+        filename,
+        ...params,
+      });
+      try {
+        const wp = clientFor(site);
+        if (filePath !== undefined && options.remote) {
+          throw new Error("HTTP 세션에서는 filePath를 사용할 수 없습니다. data 또는 url로 업로드하세요.");
+        }
+        const file = await loadMediaFile({ data, filePath, url, filename, mimeType }, config.mediaPolicy);
+        const media = await wp.uploadMedia(file, params);
+        return {
+          content: [{ type: "text", text: jsonText(cleanMedia(media)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- updateMedia ---
+  server.tool(
+    "updateMedia",
+    "WordPress 미디어의 제목, 캡션, 설명, 대체 텍스트를 수정합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("수정할 미디어 ID"),
+      title: z.string().optional().describe("변경할 제목"),
+      caption: z.string().optional().describe("변경할 캡션"),
+      description: z.string().optional().describe("변경할 설명"),
+      alt_text: z.string().optional().describe("변경할 대체 텍스트 (alt)"),
+      post: z.number().int().min(0).optional().describe("첨부할 게시글 ID (0이면 첨부 해제)"),
+    },
+    async ({ site, id, ...params }) => {
+      logger.info(`updateMedia 호출: id=${id}`, params);
+      try {
+        const wp = clientFor(site);
+        const media = await wp.updateMedia(id, params);
+        return {
+          content: [{ type: "text", text: jsonText(cleanMedia(media)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- deleteMedia ---
+  server.tool(
+    "deleteMedia",
+    "WordPress 미디어를 영구 삭제합니다. 첨부 파일은 휴지통을 지원하지 않습니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("삭제할 미디어 ID"),
+    },
+    async ({ site, id }) => {
+      logger.info(`deleteMedia 호출: id=${id}`);
+      try {
+        const wp = clientFor(site);
+        const result = await wp.deleteMedia(id);
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                deleted: result.deleted,
+                media: cleanMedia(result.previous),
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // Comment Tools
+  // =====================
+
+  const commentStatusSchema = z.enum(["approve", "hold", "spam", "trash"]);
+  // 휴지통 이동은 delete scope가 필요한 deleteComment로만 한다
+  const commentModerationSchema = z.enum(["approve", "hold", "spam"]);
+
+  // --- listComments ---
+  server.tool(
+    "listComments",
+    "WordPress 댓글 목록을 조회합니다. 게시글, 상태(hold=승인 대기), 작성자 이메일, 검색어, 작성 기간으로 필터링합니다. 댓글 관리 권한이 필요합니다.",
+    {
+      site: siteSchema,
+      page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
+      per_page: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("페이지당 댓글 수 (기본값: 10, 최대: 100)"),
+      post: z.number().int().min(1).optional().describe("게시글 ID로 필터링"),
+      parent: z.number().int().min(0).optional().describe("부모 댓글 ID로 필터링 (0이면 최상위 댓글)"),
+      status: commentStatusSchema
+        .optional()
+        .describe("댓글 상태 필터: approve(승인), hold(승인 대기), spam, trash (기본값: approve)"),
+      author_email: z.string().email().optional().describe("작성자 이메일로 필터링"),
+      search: z.string().optional().describe("검색어"),
+      after: z.string().optional().describe("이 시각 이후 작성된 댓글 (ISO 8601, 예: 2024-01-01T00:00:00)"),
+      before: z.string().optional().describe("이 시각 이전 작성된 댓글 (ISO 8601)"),
+      orderby: z
+        .enum(["date", "date_gmt", "id", "post", "parent"])
+        .optional()
+        .describe("정렬 기준 (기본값: date_gmt)"),
+      order: z.enum(["asc", "desc"]).optional().describe("정렬 방향 (기본값: desc)"),
+      ...paginationShape,
+    },
+    async ({ site, ...params }) => {
+      logger.info("listComments 호출", params);
+      try {
+        const wp = clientFor(site);
+        const comments = await wp.listComments(params);
+        return {
+          content: [{ type: "text", text: paginatedText(comments, cleanComment) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- getComment ---
+  server.tool(
+    "getComment",
+    "WordPress 댓글 하나를 ID로 조회합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("댓글 ID"),
+    },
+    async ({ site, id }) => {
+      logger.info(`getComment 호출: id=${id}`);
+      try {
+        const wp = clientFor(site);
+        const comment = await wp.getComment(id);
+        return {
+          content: [{ type: "text", text: jsonText(cleanComment(comment)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- replyToComment ---
+  server.tool(
+    "replyToComment",
+    "WordPress 댓글에 답글을 작성합니다. 답글은 현재 계정 이름으로 부모 댓글과 같은 게시글에 달립니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("답글을 달 댓글 ID"),
+      content: z.string().min(1).describe("답글 내용 (HTML 허용)"),
+    },
+    async ({ site, id, content }) => {
+      logger.info(`replyToComment 호출: id=${id}`);
+      try {
+        const wp = clientFor(site);
+        const reply = await wp.replyToComment(id, content);
+        return {
+          content: [{ type: "text", text: jsonText(cleanComment(reply)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- updateComment ---
+  server.tool(
+    "updateComment",
+    "WordPress 댓글의 상태(승인/보류/스팸)나 내용, 작성자 정보를 수정합니다. 여러 댓글의 상태를 한 번에 바꾸려면 moderateComments를 사용하세요.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("수정할 댓글 ID"),
+      status: commentModerationSchema
+        .optional()
+        .describe("변경할 상태: approve, hold, spam (휴지통 이동은 deleteComment)"),
+      content: z.string().optional().describe("변경할 내용 (HTML 허용)"),
+      author_name: z.string().optional().describe("변경할 작성자 이름"),
+      author_email: z.string().email().optional().describe("변경할 작성자 이메일"),
+      author_url: z.string().optional().describe("변경할 작성자 URL"),
+    },
+    async ({ site, id, ...params }) => {
+      logger.info(`updateComment 호출: id=${id}`, params);
+      try {
+        const wp = clientFor(site);
+        const comment = await wp.updateComment(id, params);
+        return {
+          content: [{ type: "text", text: jsonText(cleanComment(comment)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- moderateComments ---
+  server.tool(
+    "moderateComments",
+    "여러 WordPress 댓글의 상태를 한 번에 변경합니다 (예: 승인 대기 댓글 50개 승인). 댓글별 성공/실패 결과를 반환하며 일부가 실패해도 나머지는 처리됩니다.",
+    {
+      site: siteSchema,
+      ids: z.array(z.number().int().min(1)).min(1).max(100).describe("대상 댓글 ID 목록 (최대 100개)"),
+      status: commentModerationSchema.describe("변경할 상태: approve, hold, spam (휴지통 이동은 deleteComment)"),
+    },
+    async ({ site, ids, status }) => {
+      logger.info(`moderateComments 호출: ${ids.length}개 → ${status}`);
+      try {
+        const wp = clientFor(site);
+        // 사이트별 동시 요청 제한은 클라이언트가 적용한다
+        const settled = await Promise.allSettled(ids.map((id) => wp.updateComment(id, { status })));
+        const results = settled.map((result, index) =>
+          result.status === "fulfilled"
+            ? { id: ids[index], ok: true, status: result.value.status }
+            : { id: ids[index], ok: false, ...errorBody(result.reason) }
+        );
+        const failed = results.filter((result) => !result.ok).length;
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({ status, succeeded: results.length - failed, failed, results }),
+            },
+          ],
+          isError: failed === results.length,
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- deleteComment ---
+  server.tool(
+    "deleteComment",
+    "WordPress 댓글을 삭제합니다. force=true이면 휴지통을 건너뛰고 영구 삭제합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("삭제할 댓글 ID"),
+      force: z
+        .boolean()
+        .optional()
+        .describe("true이면 영구 삭제, false이면 휴지통 이동 (기본값: false)"),
+    },
+    async ({ site, id, force }) => {
+      logger.info(`deleteComment 호출: id=${id}, force=${force}`);
+      try {
+        const wp = clientFor(site);
+        const result = await wp.deleteComment(id, force ?? false);
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                deleted: result.deleted,
+                comment: cleanComment(result.previous),
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // User Tools
+  // =====================
+
+  // --- listUsers ---
+  server.tool(
+    "listUsers",
+    "WordPress 사용자 목록을 조회합니다. createPost/updatePost의 author에 사용할 ID를 찾을 때 사용합니다. has_published_posts=true이면 글을 쓴 작성자만 조회합니다.",
+    {
+      site: siteSchema,
       page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
       per_page: z
         .number()
@@ -370,21 +2905,31 @@ export function createServer(config: Config): McpServer {
         .min(1)
         .max(100)
         .optional()
-        .describe("페이지당 태그 수 (기본값: 10, 최대: 100)"),
-      search: z.string().optional().describe("검색어"),
+        .describe("페이지당 사용자 수 (기본값: 10, 최대: 100)"),
+      search: z.string().optional().describe("이름, 사용자명, 이메일 검색어"),
+      roles: z
+        .array(z.string())
+        .optional()
+        .describe("역할로 필터링 (예: [\"author\", \"editor\"], 사용자 목록 권한 필요)"),
+      has_published_posts: z.boolean().optional().describe("true이면 공개된 글이 있는 사용자만 조회"),
       orderby: z
-        .enum(["id", "include", "name", "slug", "count", "description"])
+        .enum(["id", "name", "registered_date", "slug", "email"])
         .optional()
         .describe("정렬 기준 (기본값: name)"),
       order: z.enum(["asc", "desc"]).optional().describe("정렬 방향 (기본값: asc)"),
-      hide_empty: z.boolean().optional().describe("게시글이 없는 태그 숨기기 (기본값: false)"),
+      details: z
+        .boolean()
+        .optional()
+        .describe("true이면 이메일, 사용자명, 역할 포함 (사용자 목록 권한 필요, 기본값: false)"),
+      ...paginationShape,
     },
-    async (params) => {
-      logger.info("listTags 호출", params);
+    async ({ site, details, ...params }) => {
+      logger.info("listUsers 호출", { ...params, details });
       try {
-        const tags = await wp.listTags(params);
+        const wp = clientFor(site);
+        const users = await wp.listUsers({ ...params, context: details ? "edit" : undefined });
         return {
-          content: [{ type: "text", text: jsonText(tags) }],
+          content: [{ type: "text", text: paginatedText(users, cleanUser) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -392,19 +2937,25 @@ export function createServer(config: Config): McpServer {
     }
   );
 
-  // --- getTag ---
+  // --- getUser ---
   server.tool(
-    "getTag",
-    "WordPress 태그 하나를 ID로 조회합니다.",
+    "getUser",
+    "WordPress 사용자 하나를 ID로 조회합니다.",
     {
-      id: z.number().int().min(1).describe("태그 ID"),
+      site: siteSchema,
+      id: z.number().int().min(1).describe("사용자 ID"),
+      details: z
+        .boolean()
+        .optional()
+        .describe("true이면 이메일, 사용자명, 역할 포함 (사용자 편집 권한 필요, 기본값: false)"),
     },
-    async ({ id }) => {
-      logger.info(`getTag 호출: id=${id}`);
+    async ({ site, id, details }) => {
+      logger.info(`getUser 호출: id=${id}`);
       try {
-        const tag = await wp.getTag(id);
+        const wp = clientFor(site);
+        const user = await wp.getUser(id, details ? "edit" : "view");
         return {
-          content: [{ type: "text", text: jsonText(tag) }],
+          content: [{ type: "text", text: jsonText(cleanUser(user)) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -412,21 +2963,20 @@ export function createServer(config: Config): McpServer {
     }
   );
 
-  // --- createTag ---
+  // --- getCurrentUser ---
   server.tool(
-    "createTag",
-    "WordPress에 새 태그를 생성합니다.",
+    "getCurrentUser",
+    "이 서버가 WordPress에 접속하는 계정(현재 사용자)의 정보와 역할을 조회합니다.",
     {
-      name: z.string().describe("태그 이름"),
-      description: z.string().optional().describe("태그 설명"),
-      slug: z.string().optional().describe("태그 슬러그 (URL용)"),
+      site: siteSchema,
     },
-    async (params) => {
-      logger.info("createTag 호출", { name: params.name });
+    async ({ site }) => {
+      logger.info("getCurrentUser 호출");
       try {
-        const tag = await wp.createTag(params);
+        const wp = clientFor(site);
+        const user = await wp.getCurrentUser();
         return {
-          content: [{ type: "text", text: jsonText(tag) }],
+          content: [{ type: "text", text: jsonText(cleanUser(user)) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -434,22 +2984,35 @@ export function createServer(config: Config): McpServer {
     }
   );
 
-  // --- updateTag ---
+  // --- getCapabilities ---
   server.tool(
-    "updateTag",
-    "WordPress 태그를 수정합니다.",
+    "getCapabilities",
+    "현재 계정이 할 수 있는 작업(글 발행, 다른 사용자 글 편집, 카테고리 관리, 댓글 관리 등)을 확인합니다. 권한이 필요한 작업을 시도하기 전에 호출하세요.",
     {
-      id: z.number().int().min(1).describe("수정할 태그 ID"),
-      name: z.string().optional().describe("변경할 태그 이름"),
-      description: z.string().optional().describe("변경할 태그 설명"),
-      slug: z.string().optional().describe("변경할 태그 슬러그"),
+      site: siteSchema,
     },
-    async ({ id, ...params }) => {
-      logger.info(`updateTag 호출: id=${id}`, params);
+    async ({ site }) => {
+      logger.info("getCapabilities 호출");
       try {
-        const tag = await wp.updateTag(id, params);
+        const wp = clientFor(site);
+        const user = await wp.getCurrentUser();
+        const capabilities = user.capabilities ?? {};
+        const can = Object.fromEntries(
+          Object.entries(CAPABILITY_CHECKS).map(([key, capability]) => [key, capabilities[capability] === true])
+        );
         return {
-          content: [{ type: "text", text: jsonText(tag) }],
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                user: { id: user.id, name: user.name, username: user.username, roles: user.roles },
+                can,
+                capabilities: Object.keys(capabilities)
+                  .filter((capability) => capabilities[capability])
+                  .sort(),
+              }),
+            },
+          ],
         };
       } catch (err) {
         return errorResult(err);
@@ -457,31 +3020,63 @@ export function createServer(config: Config): McpServer {
     }
   );
 
-  // --- deleteTag ---
+  // --- createUser ---
   server.tool(
-    "deleteTag",
-    "WordPress 태그를 삭제합니다. 태그 삭제 시 force=true가 필요합니다.",
+    "createUser",
+    "WordPress 사용자를 생성합니다. 사용자 생성 권한(create_users)이 필요합니다.",
     {
-      id: z.number().int().min(1).describe("삭제할 태그 ID"),
-      force: z
-        .boolean()
+      site: siteSchema,
+      username: z.string().min(1).describe("로그인 사용자명"),
+      email: z.string().email().describe("이메일"),
+      password: z.string().min(1).describe("비밀번호"),
+      name: z.string().optional().describe("표시 이름"),
+      first_name: z.string().optional().describe("이름"),
+      last_name: z.string().optional().describe("성"),
+      url: z.string().optional().describe("웹사이트 URL"),
+      description: z.string().optional().describe("소개"),
+      roles: z
+        .array(z.string())
         .optional()
-        .describe("true이면 영구 삭제 (기본값: false)"),
+        .describe("역할 (예: [\"author\"], 생략 시 사이트 기본 역할)"),
     },
-    async ({ id, force }) => {
-      logger.info(`deleteTag 호출: id=${id}, force=${force}`);
+    async ({ site, password, ...params }) => {
+      // 비밀번호는 로그에 남기지 않는다
+      logger.info("createUser 호출", params);
       try {
-        const result = await wp.deleteTag(id, force ?? false);
+        const wp = clientFor(site);
+        const user = await wp.createUser({ ...params, password });
         return {
-          content: [
-            {
-              type: "text",
-              text: jsonText({
-                deleted: result.deleted,
-                tag: result.previous,
-              }),
-            },
-          ],
+          content: [{ type: "text", text: jsonText(cleanUser(user)) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // --- updateUser ---
+  server.tool(
+    "updateUser",
+    "WordPress 사용자 정보나 역할을 수정합니다. 역할 변경에는 promote_users 권한이 필요합니다.",
+    {
+      site: siteSchema,
+      id: z.number().int().min(1).describe("수정할 사용자 ID"),
+      email: z.string().email().optional().describe("변경할 이메일"),
+      password: z.string().min(1).optional().describe("변경할 비밀번호"),
+      name: z.string().optional().describe("변경할 표시 이름"),
+      first_name: z.string().optional().describe("변경할 이름"),
+      last_name: z.string().optional().describe("변경할 성"),
+      url: z.string().optional().describe("변경할 웹사이트 URL"),
+      description: z.string().optional().describe("변경할 소개"),
+      roles: z.array(z.string()).optional().describe("변경할 역할 (기존 역할을 대체)"),
+    },
+    async ({ site, id, password, ...params }) => {
+      logger.info(`updateUser 호출: id=${id}`, { ...params, password: password !== undefined ? "***" : undefined });
+      try {
+        const wp = clientFor(site);
+        const user = await wp.updateUser(id, { ...params, password });
+        return {
+          content: [{ type: "text", text: jsonText(cleanUser(user)) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -493,19 +3088,27 @@ export function createServer(config: Config): McpServer {
   // Yoast SEO Tools
   // =====================
 
-  // --- activateBuilder ---
+  // --- getYoastSeo ---
   server.tool(
-    "activateBuilder",
-    "WordPress 게시글의 Avia 빌더를 활성화합니다.",
+    "getYoastSeo",
+    "WordPress 게시글의 현재 Yoast SEO 값(SEO 제목, 메타 설명, 초점 키워드, canonical, noindex, Open Graph/Twitter)을 조회합니다. " +
+      "updateYoastSeo 전에 호출하여 기존 값을 확인하세요.",
     {
+      site: siteSchema,
       id: z.number().int().min(1).describe("게시글 ID"),
     },
-    async ({ id }) => {
-      logger.info(`activateBuilder 호출: id=${id}`);
+    async ({ site, id }) => {
+      logger.info(`getYoastSeo 호출: id=${id}`);
       try {
-        const result = await wp.activateBuilder(id);
+        const wp = clientFor(site);
+        const [post, stored] = await Promise.all([wp.getYoastHead(id), storedYoastSeo(wp, id)]);
+        if (!post.yoast_head_json && !stored) {
+          throw new Error(
+            "Yoast SEO 값을 읽을 수 없습니다. Yoast SEO 플러그인(REST API 출력)이나 openmaru/v1 엔드포인트가 활성화되어 있는지 확인하세요."
+          );
+        }
         return {
-          content: [{ type: "text", text: jsonText(result) }],
+          content: [{ type: "text", text: jsonText(describeYoastSeo(post, stored)) }],
         };
       } catch (err) {
         return errorResult(err);
@@ -516,17 +3119,60 @@ export function createServer(config: Config): McpServer {
   // --- updateYoastSeo ---
   server.tool(
     "updateYoastSeo",
-    "WordPress 게시글의 Yoast SEO 메타데이터를 설정합니다. (focuskw, metadesc, title)",
+    "WordPress 게시글의 Yoast SEO 메타데이터를 설정합니다. (focuskw, metadesc, title, canonical, noindex, Open Graph/Twitter)",
     {
+      site: siteSchema,
       id: z.number().int().min(1).describe("게시글 ID"),
       focuskw: z.string().optional().describe("초점 키워드 (Focus Keyword)"),
       metadesc: z.string().optional().describe("메타 설명 (Meta Description)"),
       title: z.string().optional().describe("SEO 제목 (SEO Title)"),
+      canonical: z.string().optional().describe("canonical URL (빈 문자열이면 기본값)"),
+      noindex: z
+        .boolean()
+        .nullable()
+        .optional()
+        .describe("true면 검색 엔진 색인 제외, false면 색인 허용, null이면 게시글 유형 기본값"),
+      ogTitle: z.string().optional().describe("Open Graph 제목"),
+      ogDescription: z.string().optional().describe("Open Graph 설명"),
+      ogImage: z.string().optional().describe("Open Graph 이미지 URL"),
+      twitterTitle: z.string().optional().describe("Twitter 카드 제목"),
+      twitterDescription: z.string().optional().describe("Twitter 카드 설명"),
+      twitterImage: z.string().optional().describe("Twitter 카드 이미지 URL"),
     },
-    async ({ id, ...params }) => {
-      logger.info(`updateYoastSeo 호출: id=${id}`, params);
+    async ({
+      site,
+      id,
+      noindex,
+      ogTitle,
+      ogDescription,
+      ogImage,
+      twitterTitle,
+      twitterDescription,
+      twitterImage,
+      ...params
+    }) => {
+      logger.info(`updateYoastSeo 호출: id=${id}`, {
+        ...params,
+        noindex,
+        ogTitle,
+        ogDescription,
+        ogImage,
+        twitterTitle,
+        twitterDescription,
+        twitterImage,
+      });
       try {
-        const seo = await wp.updateYoastSeo(id, params);
+        const wp = clientFor(site);
+        const seo = await wp.updateYoastSeo(id, {
+          ...params,
+          "meta-robots-noindex": noindex === undefined ? undefined : noindex === null ? "0" : noindex ? "1" : "2",
+          "opengraph-title": ogTitle,
+          "opengraph-description": ogDescription,
+          "opengraph-image": ogImage,
+          "twitter-title": twitterTitle,
+          "twitter-description": twitterDescription,
+          "twitter-image": twitterImage,
+        });
         return {
           content: [{ type: "text", text: jsonText(seo) }],
         };
@@ -536,13 +3182,546 @@ export function createServer(config: Config): McpServer {
     }
   );
 
+  // --- auditSeo ---
+  server.tool(
+    "auditSeo",
+    "게시글의 SEO 상태를 점검합니다. SEO 제목/메타 설명 길이, 초점 키워드의 제목·슬러그·첫 문단 포함 여부, " +
+      "이미지 대체 텍스트 누락, 게시글 간 메타 설명 중복을 확인하여 문제가 있는 게시글만 반환합니다.",
+    {
+      site: siteSchema,
+      ids: z.array(idSchema).min(1).max(100).optional().describe("점검할 게시글 ID (생략하면 목록 필터로 선택)"),
+      status: z
+        .union([postStatusSchema, z.array(postStatusSchema).min(1)])
+        .optional()
+        .describe("점검할 게시글 상태 (기본값: publish)"),
+      categories: z.array(idSchema).min(1).optional().describe("이 카테고리 ID의 게시글만 점검"),
+      page: z.number().int().min(1).optional().describe("페이지 번호 (기본값: 1)"),
+      per_page: z.number().int().min(1).max(100).optional().describe("페이지당 게시글 수 (기본값: 20)"),
+      ...paginationShape,
+    },
+    async ({ site, ids, status, per_page, ...params }) => {
+      logger.info("auditSeo 호출", { ids, status, per_page, ...params });
+      try {
+        const wp = clientFor(site);
+        const { items, ...pagination } = await wp.listPosts({
+          ...params,
+          include: ids,
+          per_page: ids ? ids.length : (per_page ?? 20),
+          status: Array.isArray(status) ? status.join(",") : status,
+          _fields: ["id", "slug", "link", "title", "content", "yoast_head_json"],
+        });
+
+        // 초점 키워드는 yoast_head_json에 없으므로 openmaru/v1 엔드포인트에서 읽는다 (없는 사이트면 키워드 점검 생략)
+        const keywords = new Map<number, string | null>();
+        const first = items.length > 0 ? await storedYoastSeo(wp, items[0].id) : undefined;
+        if (first) {
+          keywords.set(items[0].id, first.focuskw || null);
+          const rest = await Promise.all(items.slice(1).map((post) => storedYoastSeo(wp, post.id)));
+          items.slice(1).forEach((post, index) => keywords.set(post.id, rest[index]?.focuskw || null));
+        }
+
+        const audited = items.map((post) => {
+          const input = {
+            id: post.id,
+            slug: post.slug,
+            content: post.content.rendered,
+            seoTitle: post.yoast_head_json?.title,
+            metadesc: post.yoast_head_json?.description,
+            focuskw: first ? keywords.get(post.id) ?? null : undefined,
+          };
+          return { post, input, issues: auditPost(input) };
+        });
+
+        // 메타 설명 중복은 점검 대상 페이지가 아니라 같은 상태의 모든 게시글과 비교한다
+        const compared = await wp.listPosts({
+          status: Array.isArray(status) ? status.join(",") : status,
+          all: true,
+          _fields: ["id", "yoast_head_json.description"],
+        });
+        const auditedIds = new Set(items.map((post) => post.id));
+        const duplicates = findDuplicateMetadescs(
+          compared.items.map((post) => ({ id: post.id, metadesc: post.yoast_head_json?.description }))
+        ).filter((group) => group.posts.some((id) => auditedIds.has(id)));
+        for (const group of duplicates) {
+          for (const id of group.posts) {
+            audited
+              .find(({ post }) => post.id === id)
+              ?.issues.push({
+                check: "metadesc_duplicate",
+                severity: "warning",
+                message: `메타 설명이 다른 게시글과 같습니다: ${group.posts.filter((other) => other !== id).join(", ")}`,
+              });
+          }
+        }
+
+        const summary: Record<string, number> = {};
+        for (const { issues } of audited) {
+          for (const issue of issues) summary[issue.check] = (summary[issue.check] ?? 0) + 1;
+        }
+        const withIssues = audited.filter(({ issues }) => issues.length > 0);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: jsonText({
+                audited: audited.length,
+                passed: audited.length - withIssues.length,
+                yoastHead: items.some((post) => post.yoast_head_json),
+                keywordChecks: first !== undefined,
+                summary,
+                posts: withIssues.map(({ post, input, issues }) => ({
+                  id: post.id,
+                  title: htmlToText(post.title.rendered),
+                  link: post.link,
+                  focuskw: input.focuskw,
+                  issues,
+                })),
+                duplicateMetadescs: duplicates,
+                duplicateScan: { compared: compared.items.length, truncated: compared.truncated ?? false },
+                pagination,
+              }),
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // =====================
+  // Approval Tools
+  // =====================
+  // MCP_APPROVAL_RULES가 설정된 경우에만 등록한다. 승인/거부 도구는 인증된 호출자(clientId)가
+  // approve scope를 가진 세션에만 등록한다. 인증이 없으면 요청한 에이전트가 스스로 승인할 수 있기 때문이다
+
+  if (hasApprovalRules(config.approvalPolicy)) {
+    const reviewer = options.clientId !== undefined && scopes.includes("approve");
+    /**
+     * 검토자가 아니면 자신이 요청한 작업만 볼 수 있다 (다른 호출자의 인자와 사이트 노출 방지).
+     * 인증 없는 HTTP 세션끼리는 요청자를 구분할 수 없으므로 STDIO에서만 요청자 없는 작업을 보여준다
+     */
+    const visible = (action: { requestedBy?: string }) =>
+      reviewer || (action.requestedBy === options.clientId && (options.clientId !== undefined || !options.remote));
+    const actionStatusSchema = z.enum(["pending", "running", "approved", "rejected", "failed"]);
+
+    // --- listPendingActions ---
+    server.tool(
+      "listPendingActions",
+      "승인 규칙에 걸려 실행되지 않고 승인 대기열에 있는 작업 목록을 조회합니다. 처리된 작업은 최근 100건까지 조회할 수 있습니다. 검토자(approve scope)가 아니면 자신이 요청한 작업만 조회됩니다.",
+      {
+        site: siteSchema.describe("이 사이트의 작업만 조회 (생략 시 전체)"),
+        status: actionStatusSchema.optional().describe("작업 상태 필터 (기본값: pending)"),
+      },
+      async ({ site, status = "pending" }) => {
+        logger.info("listPendingActions 호출", { site, status });
+        const actions = approvals
+          .list(status as ActionStatus)
+          .filter((action) => visible(action) && (site === undefined || action.site === site));
+        return {
+          content: [{ type: "text", text: jsonText({ total: actions.length, actions }) }],
+        };
+      }
+    );
+
+    if (reviewer) {
+      // --- approveAction ---
+      server.tool(
+        "approveAction",
+        "승인 대기 중인 작업을 승인하고 요청된 인자 그대로 실행합니다. 자신이 요청한 작업은 승인할 수 없습니다.",
+        {
+          id: z.string().uuid().describe("작업 ID (listPendingActions의 id)"),
+        },
+        async ({ id }) => {
+          logger.info("approveAction 호출", { id });
+          try {
+            const action = await approvals.approve(id, options.clientId);
+            logger.info(`승인된 작업 실행: ${action.tool} (${action.status})`, { id });
+            return {
+              content: [{ type: "text", text: jsonText(action) }],
+              isError: action.status === "failed",
+            };
+          } catch (err) {
+            return errorResult(err);
+          }
+        }
+      );
+
+      // --- rejectAction ---
+      server.tool(
+        "rejectAction",
+        "승인 대기 중인 작업을 거부합니다. 거부된 작업은 실행되지 않습니다.",
+        {
+          id: z.string().uuid().describe("작업 ID (listPendingActions의 id)"),
+          reason: z.string().optional().describe("거부 사유 (요청자가 listPendingActions로 확인)"),
+        },
+        async ({ id, reason }) => {
+          logger.info("rejectAction 호출", { id, reason });
+          try {
+            const action = approvals.reject(id, options.clientId, reason);
+            return {
+              content: [{ type: "text", text: jsonText(action) }],
+            };
+          } catch (err) {
+            return errorResult(err);
+          }
+        }
+      );
+    }
+  }
+
+  // =====================
+  // MCP Resources
+  // =====================
+  // 리소스는 기본 사이트를 가리킨다. 다른 사이트는 도구의 site 인자로 조회한다
+
+  /** 최근 수정된 게시글/페이지를 리소스 목록 항목으로 반환한다 */
+  async function listContentResources(type: "posts" | "pages") {
+    const wp = clientFor(undefined);
+    const result = await wp.listItems(type, {
+      per_page: RESOURCE_LIST_SIZE,
+      orderby: "modified",
+      order: "desc",
+      filters: { _fields: "id,title,link,modified" },
+    });
+    return {
+      resources: result.items.map((item) => {
+        const title = htmlToText((item.title as { rendered?: string } | undefined)?.rendered ?? "");
+        return {
+          uri: `wordpress://${type}/${item.id}`,
+          name: title || `${type}/${item.id}`,
+          description: `${item.link} (수정: ${item.modified})`,
+          mimeType: "application/json",
+        };
+      }),
+    };
+  }
+
+  server.resource(
+    "site",
+    SITE_URI,
+    { description: "기본 사이트 정보 (이름, 설명, 주소, 시간대, REST 네임스페이스)", mimeType: "application/json" },
+    async (uri) => {
+      logger.info(`리소스 읽기: ${uri.href}`);
+      const wp = clientFor(undefined);
+      const info = await wp.getSiteInfo();
+      const site = sites.find((s) => s.name === defaultSite)!;
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: jsonText({
+              site: site.name,
+              baseUrl: site.baseUrl,
+              name: info.name,
+              description: info.description,
+              url: info.url,
+              home: info.home,
+              timezone: describeTimezone({ timezone: info.timezone_string, gmtOffset: Number(info.gmt_offset) }),
+              namespaces: info.namespaces,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  server.resource(
+    "categories",
+    CATEGORIES_URI,
+    { description: "기본 사이트의 전체 카테고리 (id, name, slug, parent, count)", mimeType: "application/json" },
+    async (uri) => {
+      logger.info(`리소스 읽기: ${uri.href}`);
+      const categories = await listAllTerms(clientFor(undefined), "categories");
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: jsonText(categories) }] };
+    }
+  );
+
+  server.resource(
+    "tags",
+    TAGS_URI,
+    { description: "기본 사이트의 전체 태그 (id, name, slug, count)", mimeType: "application/json" },
+    async (uri) => {
+      logger.info(`리소스 읽기: ${uri.href}`);
+      const tags = await listAllTerms(clientFor(undefined), "tags");
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: jsonText(tags) }] };
+    }
+  );
+
+  server.resource(
+    "post",
+    new ResourceTemplate(POST_URI_TEMPLATE, { list: () => listContentResources("posts") }),
+    {
+      description: `기본 사이트의 게시글 (본문은 Markdown). 목록에는 최근 수정된 ${RESOURCE_LIST_SIZE}개가 표시됩니다`,
+      mimeType: "application/json",
+    },
+    async (uri, { id }) => {
+      logger.info(`리소스 읽기: ${uri.href}`);
+      const post = await clientFor(undefined).getPost(resourceId(id));
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: jsonText(cleanPost(post, "markdown")) }] };
+    }
+  );
+
+  server.resource(
+    "page",
+    new ResourceTemplate(PAGE_URI_TEMPLATE, { list: () => listContentResources("pages") }),
+    {
+      description: `기본 사이트의 페이지 (본문은 Markdown). 목록에는 최근 수정된 ${RESOURCE_LIST_SIZE}개가 표시됩니다`,
+      mimeType: "application/json",
+    },
+    async (uri, { id }) => {
+      logger.info(`리소스 읽기: ${uri.href}`);
+      const page = await clientFor(undefined).getPage(resourceId(id));
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: jsonText(cleanPage(page, "markdown")) }] };
+    }
+  );
+
+  // 구독한 URI가 쓰기 도구로 바뀌면(다른 세션의 변경 포함) resources/updated를 보낸다
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    logger.info(`리소스 구독: ${request.params.uri}`);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    logger.info(`리소스 구독 해제: ${request.params.uri}`);
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopListening = onResourceChange((change) => {
+    if (change.site !== defaultSite || !server.isConnected()) return;
+    for (const uri of change.updated) {
+      if (!subscriptions.has(uri)) continue;
+      server.server.sendResourceUpdated({ uri }).catch((err) => {
+        logger.warn(`리소스 변경 알림 실패: ${uri}`, err);
+      });
+    }
+    if (change.listChanged) {
+      server.sendResourceListChanged();
+    }
+  });
+  server.server.onclose = stopListening;
+
+  // =====================
+  // MCP Prompts
+  // =====================
+  // 편집 워크플로 지시문. 모두 쓰기 도구를 호출하므로 write scope가 없는 세션에는 등록하지 않는다
+
+  if (scopes.includes("write")) {
+    const promptSiteSchema = z.string().optional().describe(`대상 사이트 이름 (기본값: ${defaultSite})`);
+
+    /** 입력 중인 이름으로 카테고리 후보를 제안한다 */
+    const completeCategory = async (value: string | undefined, context?: { arguments?: Record<string, string> }) => {
+      try {
+        const wp = clientFor(context?.arguments?.site || undefined);
+        const result = await wp.listCategories({ search: value || undefined, per_page: 20 });
+        return result.items.map((category) => decodeEntities(category.name));
+      } catch {
+        return [];
+      }
+    };
+    // SDK는 등록할 때 optional 안쪽 스키마를, completion 요청을 처리할 때 바깥 스키마를 확인하므로 둘 다 표시한다
+    const categoryArgSchema = (description: string) =>
+      completable(completable(z.string(), completeCategory).optional().describe(description), completeCategory);
+
+    /** 프롬프트 인자(문자열)를 양의 정수로 변환한다 */
+    const intArg = (value: string | undefined, name: string, fallback: number, max: number): number => {
+      if (value === undefined || value === "") return fallback;
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < 1 || number > max) {
+        throw new Error(`${name}은(는) 1~${max} 사이의 정수여야 합니다: ${value}`);
+      }
+      return number;
+    };
+
+    // --- publishMarkdownDraft ---
+    server.prompt(
+      "publishMarkdownDraft",
+      "Markdown 문서를 내용 변경 없이 WordPress 초안으로 게시합니다. 기존 카테고리/태그 목록을 함께 제공합니다.",
+      {
+        markdown: z.string().describe("게시할 Markdown 문서"),
+        title: z.string().optional().describe("게시글 제목 (생략하면 문서의 첫 '# ' 제목)"),
+        category: categoryArgSchema("카테고리 이름 또는 \"상위/하위\" 경로 (생략하면 기존 카테고리 중에서 선택)"),
+        tags: z.string().optional().describe("태그 이름 (쉼표로 구분, 생략하면 기존 태그 중에서 선택)"),
+        site: promptSiteSchema,
+      },
+      async ({ markdown, title, category, tags, site }) => {
+        logger.info("publishMarkdownDraft 프롬프트 호출", { title, category, tags, site });
+        const wp = clientFor(site);
+        const [existingCategories, existingTags] = await Promise.all([
+          listAllTerms(wp, "categories"),
+          listPopularTags(wp),
+        ]);
+        const text = publishDraftPrompt({
+          site,
+          markdown,
+          title,
+          category,
+          tags: tags
+            ?.split(",")
+            .map((tag) => tag.trim())
+            .filter(Boolean),
+          existingCategories,
+          existingTags,
+        });
+        return { messages: [{ role: "user", content: { type: "text", text } }] };
+      }
+    );
+
+    // --- writeSeoMetadata ---
+    server.prompt(
+      "writeSeoMetadata",
+      "게시글의 Yoast SEO 제목, 메타 설명, 초점 키워드를 작성하여 저장합니다. 게시글 본문과 현재 SEO 값을 함께 제공합니다.",
+      {
+        postId: z.string().regex(/^\d+$/, "게시글 ID는 숫자여야 합니다").describe("게시글 ID"),
+        focusKeyword: z.string().optional().describe("사용할 초점 키워드 (생략하면 본문에서 선정)"),
+        tone: z.string().optional().describe("메타 설명의 어조 (예: 친근한, 전문적인)"),
+        site: promptSiteSchema,
+      },
+      async ({ postId, focusKeyword, tone, site }) => {
+        logger.info(`writeSeoMetadata 프롬프트 호출: id=${postId}`, { focusKeyword, tone, site });
+        const wp = clientFor(site);
+        const id = Number(postId);
+        const [post, head, stored] = await Promise.all([wp.getPost(id), wp.getYoastHead(id), storedYoastSeo(wp, id)]);
+        const seo = describeYoastSeo(head, stored);
+        const text = seoMetadataPrompt({
+          site,
+          id,
+          title: htmlToText(post.title.rendered),
+          slug: post.slug,
+          link: post.link,
+          content: htmlToMarkdown(post.content.rendered),
+          current: { title: seo.title, metadesc: seo.metadesc, focuskw: seo.focuskw },
+          focusKeyword,
+          tone,
+        });
+        return { messages: [{ role: "user", content: { type: "text", text } }] };
+      }
+    );
+
+    // --- retagPosts ---
+    server.prompt(
+      "retagPosts",
+      "오래된 게시글부터 태그를 기존 태그 체계에 맞춰 다시 지정합니다. 대상 게시글과 현재 태그, 기존 태그 목록을 함께 제공합니다.",
+      {
+        category: categoryArgSchema("대상 카테고리 이름 또는 \"상위/하위\" 경로 (생략하면 전체)"),
+        before: z.string().optional().describe("이 날짜 이전에 발행된 게시글만 (예: 2024-01-01)"),
+        count: z.string().optional().describe("대상 게시글 수 (기본값: 20, 최대: 50)"),
+        maxTags: z.string().optional().describe("게시글당 최대 태그 수 (기본값: 5)"),
+        site: promptSiteSchema,
+      },
+      async ({ category, before, count, maxTags, site }) => {
+        logger.info("retagPosts 프롬프트 호출", { category, before, count, maxTags, site });
+        const wp = clientFor(site);
+        const categories = category ? await termsFor(site).resolve("categories", [category], false) : undefined;
+        const [posts, existingTags] = await Promise.all([
+          wp.listPosts({
+            per_page: intArg(count, "count", 20, 50),
+            categories,
+            before: before ? resolveScheduleDate(before, await wp.getSiteTimezone()).date : undefined,
+            orderby: "date",
+            order: "asc",
+            _fields: ["id", "date", "title", "excerpt", "tags"],
+          }),
+          listPopularTags(wp),
+        ]);
+        // 인기 태그 목록에 없는 현재 태그의 이름을 조회한다
+        const names = new Map(existingTags.map((tag) => [tag.id, decodeEntities(tag.name)]));
+        const missing = [...new Set(posts.items.flatMap((post) => post.tags ?? []))].filter((id) => !names.has(id));
+        if (missing.length > 0) {
+          const result = await wp.listItems("tags", {
+            per_page: 100,
+            filters: { include: missing, _fields: "id,name" },
+          });
+          for (const tag of result.items as (WPItem & PromptTerm)[]) names.set(tag.id, decodeEntities(tag.name));
+        }
+        const text = retagPrompt({
+          site,
+          category,
+          before,
+          maxTags: intArg(maxTags, "maxTags", 5, 20),
+          posts: posts.items.map((post) => ({
+            id: post.id,
+            title: htmlToText(post.title.rendered),
+            date: post.date,
+            excerpt: htmlToText(post.excerpt.rendered),
+            tags: (post.tags ?? []).map((id) => names.get(id) ?? `#${id}`),
+          })),
+          existingTags,
+        });
+        return { messages: [{ role: "user", content: { type: "text", text } }] };
+      }
+    );
+  }
+
   return server;
 }
 
+/** openmaru/v1 엔드포인트의 저장된 Yoast 값. 엔드포인트가 없는 사이트면 undefined */
+async function storedYoastSeo(wp: WordPressClient, id: number): Promise<YoastSeoResponse | undefined> {
+  try {
+    return await wp.getYoastSeo(id);
+  } catch (err) {
+    if (err instanceof WordPressApiError && err.code === "rest_no_route") return undefined;
+    throw err;
+  }
+}
+
+/** yoast_head_json(출력 값)과 저장된 값을 합쳐 getYoastSeo 결과를 만든다. 출력 값이 있으면 우선한다 */
+function describeYoastSeo(post: Pick<WPPost, "id" | "link" | "yoast_head_json">, stored?: YoastSeoResponse) {
+  const head = post.yoast_head_json;
+  const storedNoindex = stored?.["meta-robots-noindex"];
+  return {
+    id: post.id,
+    link: post.link,
+    title: head?.title ?? stored?.title ?? null,
+    metadesc: head?.description ?? stored?.metadesc ?? null,
+    focuskw: stored ? stored.focuskw || null : undefined,
+    canonical: head?.canonical ?? (stored?.canonical || null),
+    noindex: head?.robots
+      ? head.robots.index === "noindex"
+      : storedNoindex === "1"
+        ? true
+        : storedNoindex === "2"
+          ? false
+          : null,
+    robots: head?.robots,
+    openGraph: {
+      title: head?.og_title ?? (stored?.["opengraph-title"] || null),
+      description: head?.og_description ?? (stored?.["opengraph-description"] || null),
+      image: head?.og_image?.[0]?.url ?? (stored?.["opengraph-image"] || null),
+      type: head?.og_type,
+      url: head?.og_url,
+    },
+    twitter: {
+      card: head?.twitter_card,
+      title: head?.twitter_title ?? (stored?.["twitter-title"] || null),
+      description: head?.twitter_description ?? (stored?.["twitter-description"] || null),
+      image: head?.twitter_image ?? (stored?.["twitter-image"] || null),
+    },
+    // 저장된 원본 값 (%%title%% 같은 Yoast 템플릿 변수 포함 가능)
+    stored: stored ?? null,
+    sources: { yoastHead: head !== undefined, endpoint: stored !== undefined },
+  };
+}
+
+function errorBody(err: unknown) {
+  return err instanceof WordPressApiError
+    ? err.toJSON()
+    : { error: err instanceof Error ? err.message : String(err), retryable: false };
+}
+
+/**
+ * 도구 오류 결과. WordPress API 오류는 code/status/params와 retryable, hint를 포함한
+ * 구조화된 JSON으로 반환하고, 그 외 오류(입력 검증 등)는 메시지만 반환한다.
+ */
 function errorResult(err: unknown) {
-  const message = err instanceof Error ? err.message : String(err);
   return {
-    content: [{ type: "text" as const, text: jsonText({ error: message }) }],
+    content: [{ type: "text" as const, text: jsonText(errorBody(err)) }],
     isError: true,
   };
 }
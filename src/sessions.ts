@@ -0,0 +1,113 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/** HTTP 전송 세션 하나의 상태 */
+export interface Session<T extends Transport> {
+  id: string;
+  server: McpServer;
+  transport: T;
+  /** 세션을 만든 호출자 (인증 비활성화 시 undefined) */
+  clientId?: string;
+  createdAt: number;
+  lastActiveAt: number;
+  /** 응답을 아직 보내지 않은 클라이언트 요청 ID (처리 중인 도구 호출 등) */
+  pending: Set<RequestId>;
+}
+
+/**
+ * 전송 방식별 세션 목록.
+ * 세션 transport의 메시지 송수신을 감싸서 마지막 활동 시각과 처리 중인 요청을 추적하므로
+ * 전송 방식(요청별 HTTP 응답 / 별도 SSE 스트림)과 관계없이 유휴 만료와 종료 대기를 판단할 수 있다.
+ */
+export class SessionStore<T extends Transport> {
+  private sessions = new Map<string, Session<T>>();
+
+  constructor(readonly kind: string) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get(id: string): Session<T> | undefined {
+    return this.sessions.get(id);
+  }
+
+  values(): Session<T>[] {
+    return [...this.sessions.values()];
+  }
+
+  /** server.connect(transport) 이후에 호출해야 한다 (connect가 onmessage를 설정하므로) */
+  add(id: string, server: McpServer, transport: T, clientId?: string): Session<T> {
+    const now = Date.now();
+    const session: Session<T> = {
+      id,
+      server,
+      transport,
+      clientId,
+      createdAt: now,
+      lastActiveAt: now,
+      pending: new Set(),
+    };
+
+    const onmessage = transport.onmessage;
+    transport.onmessage = (message, extra) => {
+      session.lastActiveAt = Date.now();
+      if (isJSONRPCRequest(message)) {
+        session.pending.add(message.id);
+      }
+      onmessage?.(message, extra);
+    };
+
+    const send = transport.send.bind(transport);
+    transport.send = async (message, options) => {
+      session.lastActiveAt = Date.now();
+      if (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) {
+        if (message.id !== undefined) session.pending.delete(message.id);
+      }
+      return send(message, options);
+    };
+
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  delete(id: string): boolean {
+    return this.sessions.delete(id);
+  }
+
+  /** 요청이 들어올 때 마지막 활동 시각을 갱신한다 (SSE 스트림 재연결 등 메시지가 없는 요청 포함) */
+  touch(session: Session<T>) {
+    session.lastActiveAt = Date.now();
+  }
+
+  /** 처리 중인 요청 없이 ttlMs 이상 활동이 없는 세션 */
+  idle(ttlMs: number, now = Date.now()): Session<T>[] {
+    return this.values().filter(
+      (session) => session.pending.size === 0 && now - session.lastActiveAt >= ttlMs
+    );
+  }
+
+  /** 모든 세션의 처리 중인 요청 수 */
+  get pendingRequests(): number {
+    return this.values().reduce((sum, session) => sum + session.pending.size, 0);
+  }
+
+  /**
+   * /health에 노출할 세션 요약. 인증을 사용하지 않으면 세션 ID만으로 세션에 접근할 수 있으므로
+   * 세션 ID와 호출자는 포함하지 않는다
+   */
+  describe(now = Date.now()) {
+    return this.values().map((session) => ({
+      transport: this.kind,
+      ageSeconds: Math.round((now - session.createdAt) / 1000),
+      idleSeconds: Math.round((now - session.lastActiveAt) / 1000),
+      pendingRequests: session.pending.size,
+    }));
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * WordPress 쇼트코드([tag attr='value']...[/tag]) 파서와 직렬화기. Avia(Enfold) 레이아웃 빌더가
+ * 본문에 저장하는 쇼트코드 트리를 읽고 쓰는 데 사용한다.
+ * 닫는 태그가 없는 쇼트코드는 자기 닫힘으로 보고, 쇼트코드 밖의 텍스트는 text 노드로 보존한다.
+ */
+
+export interface ShortcodeText {
+  type: "text";
+  text: string;
+}
+
+export interface ShortcodeElement {
+  type: "shortcode";
+  tag: string;
+  /** 속성 (입력 순서 유지). 이름 없는 위치 속성은 "0", "1" 키로 저장한다 */
+  attrs: Record<string, string>;
+  /** 닫는 태그([/tag])가 있는 쇼트코드인지 여부 */
+  enclosing: boolean;
+  children: ShortcodeNode[];
+}
+
+export type ShortcodeNode = ShortcodeText | ShortcodeElement;
+
+// [[escaped]] 쇼트코드는 WordPress처럼 텍스트로 취급한다
+const TAG = /\[(\[?)(\/)?([a-zA-Z0-9_-]+)((?:[^\]'"]|"[^"]*"|'[^']*')*?)(\/)?\](\]?)/g;
+const ATTR = /([\w-]+)\s*=\s*"([^"]*)"|([\w-]+)\s*=\s*'([^']*)'|([\w-]+)\s*=\s*([^\s'"]+)|"([^"]*)"|'([^']*)'|(\S+)/g;
+
+function parseAttrs(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  let position = 0;
+  for (const match of text.matchAll(ATTR)) {
+    if (match[1] !== undefined) attrs[match[1]] = match[2];
+    else if (match[3] !== undefined) attrs[match[3]] = match[4];
+    else if (match[5] !== undefined) attrs[match[5]] = match[6];
+    else attrs[String(position++)] = match[7] ?? match[8] ?? match[9];
+  }
+  return attrs;
+}
+
+/** 쇼트코드 문서를 최상위 노드 배열로 파싱한다 */
+export function parseShortcodes(document: string): ShortcodeNode[] {
+  const root: ShortcodeElement = { type: "shortcode", tag: "", attrs: {}, enclosing: true, children: [] };
+  const stack: ShortcodeElement[] = [root];
+  let offset = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const siblings = stack[stack.length - 1].children;
+    const last = siblings[siblings.length - 1];
+    if (last?.type === "text") last.text += text;
+    else siblings.push({ type: "text", text });
+  };
+
+  for (const match of document.matchAll(TAG)) {
+    const [raw, escapeOpen, closing, tag, attrText, selfClosing, escapeClose] = match;
+    pushText(document.slice(offset, match.index));
+    offset = match.index + raw.length;
+
+    if (escapeOpen && escapeClose) {
+      pushText(raw);
+      continue;
+    }
+
+    if (closing) {
+      let openIndex = stack.length - 1;
+      while (openIndex > 0 && stack[openIndex].tag !== tag) openIndex--;
+      if (openIndex <= 0) {
+        // 짝이 없는 닫는 태그는 텍스트로 남긴다
+        pushText(raw);
+        continue;
+      }
+      // 사이에 닫히지 않은 쇼트코드는 자기 닫힘이므로 자식을 부모로 올린다
+      while (stack.length - 1 > openIndex) {
+        const unclosed = stack.pop()!;
+        const parent = stack[stack.length - 1];
+        parent.children.push(...unclosed.children);
+        unclosed.children = [];
+      }
+      stack.pop()!.enclosing = true;
+      continue;
+    }
+
+    const element: ShortcodeElement = {
+      type: "shortcode",
+      tag,
+      attrs: parseAttrs(attrText),
+      enclosing: false,
+      children: [],
+    };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+  pushText(document.slice(offset));
+
+  while (stack.length > 1) {
+    const unclosed = stack.pop()!;
+    stack[stack.length - 1].children.push(...unclosed.children);
+    unclosed.children = [];
+  }
+  return root.children;
+}
+
+function serializeAttr(name: string, value: string): string {
+  const quoted = value.includes("'") ? `"${value.replace(/"/g, "&quot;")}"` : `'${value}'`;
+  if (/^\d+$/.test(name)) {
+    // 위치 속성(예: [av_one_full first])은 공백이 없으면 따옴표 없이 쓴다
+    return /^[^\s'"\]]+$/.test(value) ? value : quoted;
+  }
+  return `${name}=${quoted}`;
+}
+
+export function serializeShortcode(node: ShortcodeNode): string {
+  if (node.type === "text") {
+    return node.text;
+  }
+  const attrs = Object.entries(node.attrs).map(([name, value]) => ` ${serializeAttr(name, value)}`).join("");
+  const open = `[${node.tag}${attrs}]`;
+  if (!node.enclosing) {
+    return open;
+  }
+  return `${open}${serializeShortcodes(node.children)}[/${node.tag}]`;
+}
+
+export function serializeShortcodes(nodes: ShortcodeNode[]): string {
+  return nodes.map(serializeShortcode).join("");
+}
@@ -2,36 +2,130 @@ import express from "express";
 import { randomUUID } from "node:crypto";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { loadConfig } from "./config.js";
-import { createServer } from "./server.js";
+import { loadConfig, type Config } from "./config.js";
+import { createServer, type CreateServerOptions, type SessionCredentials } from "./server.js";
+import { HttpAuthenticator, wordpressCredentials } from "./auth.js";
+import { SessionStore } from "./sessions.js";
+import { ApprovalError, approvals, hasApprovalRules, type ActionStatus } from "./approvals.js";
 import { logger } from "./logger.js";
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 // --- Streamable HTTP 세션 관리 ---
-interface StreamableSession {
-  server: McpServer;
-  transport: StreamableHTTPServerTransport;
+const streamableSessions = new SessionStore<StreamableHTTPServerTransport>("streamable");
+
+// --- 레거시 SSE 세션 관리 ---
+const legacySessions = new SessionStore<SSEServerTransport>("legacy-sse");
+
+const allSessions = () => [...streamableSessions.values(), ...legacySessions.values()];
+
+/** 종료 신호를 받은 뒤에는 새 요청을 받지 않는다 */
+let shuttingDown = false;
+
+/** 세션을 만든 호출자와 다른 자격 증명으로 세션에 접근하는지 확인한다 */
+function isSessionOwner(session: { clientId?: string }, req: express.Request): boolean {
+  return session.clientId === req.auth?.clientId;
 }
 
-const streamableSessions = new Map<string, StreamableSession>();
+/**
+ * 세션 시작 요청에서 세션별 서버 옵션(scope, WordPress 자격 증명)을 만든다.
+ * 자체 자격 증명이 없고 공용 계정 사용도 허용되지 않으면 응답을 보내고 null을 반환한다.
+ */
+function sessionOptions(config: Config, req: express.Request, res: express.Response): CreateServerOptions | null {
+  let credentials: SessionCredentials | undefined;
+  try {
+    const found = wordpressCredentials(req);
+    if (found) {
+      const site = found.site ?? config.defaultSite;
+      if (!config.sites.some((configured) => configured.name === site)) {
+        throw new Error(`알 수 없는 사이트입니다: ${site}. 사용 가능: ${config.sites.map((s) => s.name).join(", ")}`);
+      }
+      credentials = { site, auth: found.auth };
+    }
+  } catch (err) {
+    res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+    return null;
+  }
+  if (!credentials && !config.allowSharedCredentials) {
+    res.status(401).json({
+      error:
+        "WordPress 자격 증명이 필요합니다. X-WordPress-Token 또는 X-WordPress-Username + X-WordPress-App-Password 헤더를 보내세요.",
+    });
+    return null;
+  }
+  return { scopes: req.auth?.scopes, credentials, clientId: req.auth?.clientId, remote: true };
+}
 
-// --- 레거시 SSE 세션 관리 ---
-const legacySessions = new Map<string, SSEServerTransport>();
+/** 승인 대기열 오류를 HTTP 응답으로 보낸다 */
+function sendApprovalError(res: express.Response, err: unknown) {
+  if (err instanceof ApprovalError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  logger.error("승인 작업 처리 실패:", err);
+  res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+}
+
+/** 세션 수 상한에 도달했으면 503을 보내고 true를 반환한다 */
+function rejectOverCapacity(config: Config, res: express.Response): boolean {
+  const { maxSessions } = config.sessionPolicy;
+  if (streamableSessions.size + legacySessions.size < maxSessions) {
+    return false;
+  }
+  logger.warn(`세션 수 상한(${maxSessions})에 도달하여 새 세션을 거부합니다.`);
+  res
+    .status(503)
+    .set("Retry-After", "30")
+    .json({ error: `동시 세션 수가 상한(${maxSessions})에 도달했습니다. 잠시 후 다시 시도하세요.` });
+  return true;
+}
+
+/** 유휴 시간이 지난 세션을 닫는다. 세션 목록에서의 제거는 각 transport의 종료 핸들러가 처리한다 */
+async function reapIdleSessions(config: Config) {
+  const idle = [
+    ...streamableSessions.idle(config.sessionPolicy.idleTtlMs),
+    ...legacySessions.idle(config.sessionPolicy.idleTtlMs),
+  ];
+  for (const session of idle) {
+    logger.info(`유휴 세션 만료: ${session.id}`);
+    await session.server.close().catch((err) => logger.warn(`세션 종료 실패: ${session.id}`, err));
+  }
+}
 
 async function main() {
   const config = loadConfig();
   const app = express();
-  app.use(express.json());
+  // uploadMedia의 base64 data가 들어가도록 기본 한도(100kb) 대신 설정값을 사용한다
+  app.use(express.json({ limit: config.maxRequestBytes }));
+
+  app.use(["/mcp", "/sse", "/messages", "/approvals"], (_req, res, next) => {
+    if (shuttingDown) {
+      res.status(503).set("Connection", "close").json({ error: "서버가 종료 중입니다." });
+      return;
+    }
+    next();
+  });
+
+  const authenticator = new HttpAuthenticator(config.httpAuth);
+  const requireAuth = authenticator.middleware();
+  app.use(["/mcp", "/sse", "/messages", "/approvals"], requireAuth);
 
   // ============================================================
-  // Health check
+  // Health check — 인증되지 않은 호출자에게는 상태만 반환한다
   // ============================================================
-  app.get("/health", (_req, res) => {
+  app.get("/health", async (req, res) => {
+    if (authenticator.enabled && !(await authenticator.verify(req))) {
+      res.json({ status: shuttingDown ? "shutting_down" : "ok" });
+      return;
+    }
+    const now = Date.now();
     res.json({
-      status: "ok",
+      status: shuttingDown ? "shutting_down" : "ok",
       streamableSessions: streamableSessions.size,
       legacySessions: legacySessions.size,
-      wordpress: config.baseUrl,
+      maxSessions: config.sessionPolicy.maxSessions,
+      sessionIdleTtlSeconds: Math.round(config.sessionPolicy.idleTtlMs / 1000),
+      sessions: [...streamableSessions.describe(now), ...legacySessions.describe(now)],
+      wordpress: Object.fromEntries(config.sites.map((site) => [site.name, site.baseUrl])),
+      defaultSite: config.defaultSite,
     });
   });
 
@@ -41,17 +135,34 @@ async function main() {
   app.post("/mcp", async (req, res) => {
     const sessionId = req.headers["mcp-session-id"] as string | undefined;
 
-    if (sessionId && streamableSessions.has(sessionId)) {
-      const session = streamableSessions.get(sessionId)!;
-      await session.transport.handleRequest(req, res, req.body);
+    const existing = sessionId ? streamableSessions.get(sessionId) : undefined;
+    if (existing) {
+      if (!isSessionOwner(existing, req)) {
+        res.status(403).json({ error: "다른 호출자의 세션입니다." });
+        return;
+      }
+      streamableSessions.touch(existing);
+      await existing.transport.handleRequest(req, res, req.body);
       return;
     }
 
     // 새 세션 생성
-    logger.info("[streamable] 새 MCP 세션 생성");
-    const server = createServer(config);
+    if (rejectOverCapacity(config, res)) return;
+    const options = sessionOptions(config, req, res);
+    if (!options) return;
+    const clientId = req.auth?.clientId;
+    logger.info(
+      `[streamable] 새 MCP 세션 생성${clientId ? ` (${clientId}, scope: ${req.auth!.scopes.join("+")})` : ""}` +
+        (options.credentials ? ` — 세션 WordPress 자격 증명 사용 (${options.credentials.site})` : "")
+    );
+    const server = createServer(config, options);
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: () => randomUUID(),
+      // 세션 ID는 initialize 요청을 처리할 때 생성되므로 그 시점에 등록한다
+      onsessioninitialized: (id) => {
+        streamableSessions.add(id, server, transport, clientId);
+        logger.info(`[streamable] 세션 생성됨: ${id}`);
+      },
     });
 
     transport.onclose = () => {
@@ -63,32 +174,35 @@ async function main() {
     };
 
     await server.connect(transport);
-
-    if (transport.sessionId) {
-      streamableSessions.set(transport.sessionId, { server, transport });
-      logger.info(`[streamable] 세션 생성됨: ${transport.sessionId}`);
-    }
-
     await transport.handleRequest(req, res, req.body);
   });
 
   app.get("/mcp", async (req, res) => {
     const sessionId = req.headers["mcp-session-id"] as string | undefined;
-    if (!sessionId || !streamableSessions.has(sessionId)) {
+    const session = sessionId ? streamableSessions.get(sessionId) : undefined;
+    if (!session) {
       res.status(400).json({ error: "유효하지 않은 세션입니다." });
       return;
     }
-    const session = streamableSessions.get(sessionId)!;
+    if (!isSessionOwner(session, req)) {
+      res.status(403).json({ error: "다른 호출자의 세션입니다." });
+      return;
+    }
+    streamableSessions.touch(session);
     await session.transport.handleRequest(req, res);
   });
 
   app.delete("/mcp", async (req, res) => {
     const sessionId = req.headers["mcp-session-id"] as string | undefined;
-    if (!sessionId || !streamableSessions.has(sessionId)) {
+    const session = sessionId ? streamableSessions.get(sessionId) : undefined;
+    if (!sessionId || !session) {
       res.status(400).json({ error: "유효하지 않은 세션입니다." });
       return;
     }
-    const session = streamableSessions.get(sessionId)!;
+    if (!isSessionOwner(session, req)) {
+      res.status(403).json({ error: "다른 호출자의 세션입니다." });
+      return;
+    }
     await session.transport.handleRequest(req, res);
     streamableSessions.delete(sessionId);
     logger.info(`[streamable] 세션 삭제됨: ${sessionId}`);
@@ -101,12 +215,12 @@ async function main() {
   // GET /sse — 클라이언트가 SSE 스트림을 열고 sessionId를 받는다
   app.get("/sse", async (req, res) => {
     logger.info("[legacy-sse] 새 SSE 연결 요청");
+    if (rejectOverCapacity(config, res)) return;
+    const options = sessionOptions(config, req, res);
+    if (!options) return;
 
     const transport = new SSEServerTransport("/messages", res);
-    const server = createServer(config);
-
-    legacySessions.set(transport.sessionId, transport);
-    logger.info(`[legacy-sse] 세션 생성됨: ${transport.sessionId}`);
+    const server = createServer(config, options);
 
     res.on("close", () => {
       logger.info(`[legacy-sse] 세션 종료: ${transport.sessionId}`);
@@ -114,32 +228,151 @@ async function main() {
     });
 
     await server.connect(transport);
+    legacySessions.add(transport.sessionId, server, transport, req.auth?.clientId);
+    logger.info(`[legacy-sse] 세션 생성됨: ${transport.sessionId}`);
   });
 
   // POST /messages — 클라이언트가 JSON-RPC 메시지를 보낸다
   app.post("/messages", async (req, res) => {
     const sessionId = req.query.sessionId as string | undefined;
 
-    if (!sessionId || !legacySessions.has(sessionId)) {
+    const session = sessionId ? legacySessions.get(sessionId) : undefined;
+    if (!session) {
       logger.warn(`[legacy-sse] 유효하지 않은 세션: ${sessionId}`);
       res.status(400).json({ error: "유효하지 않은 세션입니다." });
       return;
     }
 
-    const transport = legacySessions.get(sessionId)!;
-    await transport.handlePostMessage(req, res, req.body);
+    if (!isSessionOwner(session, req)) {
+      res.status(403).json({ error: "다른 호출자의 세션입니다." });
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, req.body);
+  });
+
+  // ============================================================
+  // 승인 대기열 — 검토자가 MCP 클라이언트 없이 작업을 확인하고 승인/거부한다
+  // ============================================================
+  const ACTION_STATUSES: ActionStatus[] = ["pending", "running", "approved", "rejected", "failed"];
+
+  // approve scope가 있는 인증된 호출자만 접근할 수 있다 (인증이 없으면 누구나 승인할 수 있으므로 막는다)
+  app.use("/approvals", (req, res, next) => {
+    if (!authenticator.enabled) {
+      res.status(403).json({ error: "승인 대기열은 인증(MCP_API_KEYS 또는 MCP_JWT_*)을 사용할 때만 이용할 수 있습니다." });
+      return;
+    }
+    if (!req.auth?.scopes.includes("approve")) {
+      res.status(403).json({ error: "approve scope가 필요합니다." });
+      return;
+    }
+    next();
+  });
+
+  app.get("/approvals", (req, res) => {
+    const status = (req.query.status as string | undefined) ?? "pending";
+    if (status !== "all" && !ACTION_STATUSES.includes(status as ActionStatus)) {
+      res.status(400).json({ error: `알 수 없는 상태입니다: ${status} (사용 가능: all, ${ACTION_STATUSES.join(", ")})` });
+      return;
+    }
+    const actions = approvals.list(status === "all" ? undefined : (status as ActionStatus));
+    res.json({ total: actions.length, actions });
+  });
+
+  app.get("/approvals/:id", (req, res) => {
+    const action = approvals.find(req.params.id);
+    if (!action) {
+      res.status(404).json({ error: `승인 대기 작업을 찾을 수 없습니다: ${req.params.id}` });
+      return;
+    }
+    res.json(action);
+  });
+
+  app.post("/approvals/:id/approve", async (req, res) => {
+    try {
+      const action = await approvals.approve(req.params.id, req.auth?.clientId);
+      logger.info(`[approvals] 승인된 작업 실행: ${action.tool} (${action.status})`, { id: action.id });
+      res.json(action);
+    } catch (err) {
+      sendApprovalError(res, err);
+    }
+  });
+
+  app.post("/approvals/:id/reject", (req, res) => {
+    try {
+      const reason = typeof req.body?.reason === "string" ? req.body.reason : undefined;
+      const action = approvals.reject(req.params.id, req.auth?.clientId, reason);
+      logger.info(`[approvals] 작업 거부: ${action.tool}`, { id: action.id, reason });
+      res.json(action);
+    } catch (err) {
+      sendApprovalError(res, err);
+    }
   });
 
   // ============================================================
   // 서버 시작
   // ============================================================
-  app.listen(config.ssePort, () => {
+  const httpServer = app.listen(config.ssePort, () => {
     logger.info(`MCP 서버 시작: http://localhost:${config.ssePort}`);
     logger.info(`  Streamable HTTP : POST|GET|DELETE /mcp`);
     logger.info(`  Legacy SSE      : GET /sse + POST /messages`);
     logger.info(`  Health check    : GET /health`);
-    logger.info(`  WordPress       : ${config.baseUrl}`);
+    if (hasApprovalRules(config.approvalPolicy)) {
+      logger.info(
+        authenticator.enabled
+          ? `  승인 대기열     : GET /approvals, POST /approvals/:id/approve|reject`
+          : "  승인 대기열     : 인증이 비활성화되어 승인할 수 없습니다 (/approvals는 403)"
+      );
+    }
+    if (!authenticator.enabled) {
+      logger.warn("  인증            : 비활성화 (MCP_API_KEYS 또는 MCP_JWT_SECRET/MCP_JWT_JWKS_URL을 설정하세요)");
+    }
+    if (!config.allowSharedCredentials) {
+      logger.info("  WordPress 계정  : 세션별 자격 증명 필수 (공용 계정 사용 안 함)");
+    }
+    for (const site of config.sites) {
+      const suffix = site.name === config.defaultSite ? " (기본)" : "";
+      logger.info(`  WordPress       : ${site.name} → ${site.baseUrl}${suffix}`);
+    }
+    if (config.dryRun) {
+      logger.warn("  dryRun          : 활성화 (모든 쓰기 도구가 사이트에 쓰지 않고 보낼 요청만 반환)");
+    }
   });
+
+  // ============================================================
+  // 유휴 세션 정리
+  // ============================================================
+  const reaper = setInterval(
+    () => void reapIdleSessions(config),
+    Math.min(config.sessionPolicy.idleTtlMs, 60_000)
+  );
+  reaper.unref();
+
+  // ============================================================
+  // 종료 처리 — 새 요청을 막고 처리 중인 요청을 기다린 뒤 세션을 닫는다
+  // ============================================================
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    clearInterval(reaper);
+    httpServer.close();
+    logger.info(`${signal} 수신 — 처리 중인 요청을 마친 뒤 종료합니다.`);
+
+    const pending = () => streamableSessions.pendingRequests + legacySessions.pendingRequests;
+    const deadline = Date.now() + config.sessionPolicy.shutdownTimeoutMs;
+    while (pending() > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    if (pending() > 0) {
+      logger.warn(`종료 대기 시간 초과 — 처리 중인 요청 ${pending()}건을 중단합니다.`);
+    }
+
+    await Promise.allSettled(allSessions().map((session) => session.server.close()));
+    httpServer.closeAllConnections();
+    logger.info("MCP 서버 종료");
+    process.exit(0);
+  };
+  process.once("SIGTERM", () => void shutdown("SIGTERM"));
+  process.once("SIGINT", () => void shutdown("SIGINT"));
 }
 
 main().catch((err) => {
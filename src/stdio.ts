@@ -2,6 +2,7 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { loadConfig } from "./config.js";
 import { createServer } from "./server.js";
 import { logger } from "./logger.js";
+import { hasApprovalRules } from "./approvals.js";
 
 async function main() {
   const config = loadConfig();
@@ -9,7 +10,18 @@ async function main() {
   const transport = new StdioServerTransport();
 
   await server.connect(transport);
-  logger.info(`STDIO 서버 시작 (WordPress: ${config.baseUrl})`);
+  logger.info(
+    `STDIO 서버 시작 (WordPress: ${config.sites.map((site) => `${site.name}=${site.baseUrl}`).join(", ")})`
+  );
+  if (config.dryRun) {
+    logger.warn("dryRun 활성화: 모든 쓰기 도구가 사이트에 쓰지 않고 보낼 요청만 반환합니다.");
+  }
+  if (hasApprovalRules(config.approvalPolicy)) {
+    // STDIO에는 호출자 구분이 없어 에이전트가 스스로 승인할 수 있으므로 승인 도구를 제공하지 않는다
+    logger.warn(
+      "승인 규칙 활성화: 규칙에 걸린 쓰기 작업은 대기열에 들어가며, STDIO 모드에서는 승인할 수 없어 실행되지 않습니다 (승인은 인증을 사용하는 HTTP 모드에서만 가능)."
+    );
+  }
 }
 
 main().catch((err) => {
@@ -0,0 +1,146 @@
+import { decodeEntities } from "./html-renderer.js";
+import { logger } from "./logger.js";
+import type { TermTaxonomy, WordPressClient, WPTermRef } from "./wordpress-client.js";
+
+/** 게시글 입력의 term 지정값. 숫자는 ID, 문자열은 이름 또는 슬러그 (카테고리는 "Tech/AI" 경로 가능) */
+export type TermInput = number | string;
+
+/** 새로 만든 term (도구 결과에 표시) */
+export interface CreatedTerm {
+  taxonomy: TermTaxonomy;
+  id: number;
+  name: string;
+  parent?: number;
+}
+
+const LABELS: Record<TermTaxonomy, string> = { categories: "카테고리", tags: "태그" };
+
+function normalize(value: string): string {
+  return decodeEntities(value).trim().toLowerCase();
+}
+
+function matches(term: WPTermRef, name: string): boolean {
+  const key = normalize(name);
+  return normalize(term.name) === key || term.slug === key;
+}
+
+/**
+ * 카테고리/태그 이름·슬러그를 ID로 해석한다.
+ * 세션(createServer)마다 사이트별로 하나씩 만들어 해석 결과를 캐시하므로, 같은 세션에서 반복되는 이름은 다시 조회하지 않는다.
+ */
+export class TermResolver {
+  /** "taxonomy:parent:이름" → term ID. parent가 "*"이면 상위와 무관하게 이름으로 찾은 결과 */
+  private cache = new Map<string, number>();
+  /** 같은 이름을 동시에 해석할 때 중복 생성을 막기 위해 진행 중인 조회를 공유한다 */
+  private inflight = new Map<string, Promise<number>>();
+
+  constructor(private readonly wp: WordPressClient) {}
+
+  /**
+   * term 목록을 ID 배열로 바꾼다. autoCreate가 아니면 없는 이름은 오류가 된다.
+   * created에는 이번 호출에서 새로 만든 term이 추가된다.
+   */
+  async resolve(
+    taxonomy: TermTaxonomy,
+    inputs: TermInput[],
+    autoCreate: boolean,
+    created: CreatedTerm[] = []
+  ): Promise<number[]> {
+    const ids: number[] = [];
+    // 카테고리 경로는 상위 term부터 순서대로 만들어야 하므로 하나씩 해석한다
+    for (const input of inputs) {
+      const id = typeof input === "number" ? input : await this.resolveName(taxonomy, input, autoCreate, created);
+      if (!ids.includes(id)) ids.push(id);
+    }
+    return ids;
+  }
+
+  private async resolveName(
+    taxonomy: TermTaxonomy,
+    input: string,
+    autoCreate: boolean,
+    created: CreatedTerm[]
+  ): Promise<number> {
+    const segments =
+      taxonomy === "categories" ? input.split("/").map((segment) => segment.trim()).filter(Boolean) : [input.trim()];
+    if (segments.length === 0) {
+      throw new Error(`${LABELS[taxonomy]} 이름이 비어 있습니다: "${input}"`);
+    }
+    if (segments.length === 1) {
+      return this.lookup(taxonomy, segments[0], undefined, autoCreate, created);
+    }
+    // 경로는 최상위부터 각 단계의 parent 아래에서 찾는다
+    let parent = 0;
+    for (const segment of segments) {
+      parent = await this.lookup(taxonomy, segment, parent, autoCreate, created, input);
+    }
+    return parent;
+  }
+
+  /** parent가 undefined면 상위와 무관하게 찾고, 없으면 최상위에 만든다 */
+  private lookup(
+    taxonomy: TermTaxonomy,
+    name: string,
+    parent: number | undefined,
+    autoCreate: boolean,
+    created: CreatedTerm[],
+    path = name
+  ): Promise<number> {
+    const key = `${taxonomy}:${parent ?? "*"}:${normalize(name)}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) return Promise.resolve(cached);
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const promise = this.find(taxonomy, name, parent, autoCreate, created, path)
+      .then((id) => {
+        // dryRun에서 만든 가상 ID(음수)는 실제 호출에 쓰이지 않도록 캐시하지 않는다
+        if (id > 0) this.cache.set(key, id);
+        return id;
+      })
+      .finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private async find(
+    taxonomy: TermTaxonomy,
+    name: string,
+    parent: number | undefined,
+    autoCreate: boolean,
+    created: CreatedTerm[],
+    path: string
+  ): Promise<number> {
+    const label = LABELS[taxonomy];
+    // dryRun에서 만든 가상 상위(음수 ID) 아래에는 실제 항목이 있을 수 없으므로 조회하지 않는다
+    const candidates =
+      parent !== undefined && parent < 0
+        ? []
+        : (await this.wp.searchTerms(taxonomy, name, parent)).filter((term) => matches(term, name));
+    if (candidates.length === 1) {
+      return candidates[0].id;
+    }
+    if (candidates.length > 1) {
+      // 같은 이름의 카테고리가 여러 상위 아래에 있는 경우
+      const options = candidates.map((term) => `${term.id} (parent=${term.parent ?? 0})`).join(", ");
+      throw new Error(
+        `${label} "${name}"와 일치하는 항목이 여러 개입니다: ${options}. ID나 "상위/하위" 경로로 지정하세요.`
+      );
+    }
+    if (!autoCreate) {
+      throw new Error(
+        `${label} "${path}"을(를) 찾을 수 없습니다. autoCreateTerms=true로 새로 만들거나 list${
+          taxonomy === "categories" ? "Categories" : "Tags"
+        }로 확인하세요.`
+      );
+    }
+
+    const term =
+      taxonomy === "categories"
+        ? await this.wp.createCategory({ name, parent: parent || undefined })
+        : await this.wp.createTag({ name });
+    logger.info(`${label} 생성: ${path} (id=${term.id})`);
+    created.push({ taxonomy, id: term.id, name, parent: parent || undefined });
+    return term.id;
+  }
+}
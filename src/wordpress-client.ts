@@ -1,29 +1,93 @@
 import { Agent, type Dispatcher } from "undici";
-import type { Config } from "./config.js";
+import type { RequestPolicy, SiteConfig } from "./config.js";
 import { logger } from "./logger.js";
+import type { MediaFile } from "./media.js";
+import { ConcurrencyLimiter } from "./concurrency.js";
+import { WordPressApiError } from "./errors.js";
+import type { SiteTimezone } from "./schedule.js";
+import type { FieldSchema } from "./meta.js";
+import {
+  WRITE_METHODS,
+  currentDryRun,
+  describeFormData,
+  fieldDiff,
+  isPlainObject,
+  plannedResponse,
+  summarizeItem,
+  type DryRunRecorder,
+  type PlannedRequest,
+} from "./dry-run.js";
+
+/** 디버그 로그에 남기지 않을 요청 본문 키 (사용자 비밀번호, 애플리케이션 비밀번호 등) */
+const SECRET_KEY = /pass(word)?|secret|token/i;
+
+/** JSON.stringify replacer: 비밀 값이 담긴 키를 가린다 */
+function redactSecrets(key: string, value: unknown): unknown {
+  return key && SECRET_KEY.test(key) && value !== undefined ? "[REDACTED]" : value;
+}
+
+/** 택소노미 필터 안에서 여러 term을 조합하는 방식 (OR: 하나라도, AND: 모두 포함) */
+export type TermOperator = "AND" | "OR";
 
 export interface WPPost {
   id: number;
+  /** 사이트 시간대 기준 발행(예약) 일시 */
   date: string;
+  /** UTC 발행(예약) 일시. 날짜를 지정하지 않은 초안은 null */
+  date_gmt: string | null;
+  modified: string;
   slug: string;
   status: string;
-  title: { rendered: string };
-  content: { rendered: string };
-  excerpt: { rendered: string };
+  /** raw는 context=edit 요청에서만 포함된다 */
+  title: { rendered: string; raw?: string };
+  content: { rendered: string; raw?: string };
+  excerpt: { rendered: string; raw?: string };
   author: number;
   featured_media: number;
   categories: number[];
   tags: number[];
+  sticky?: boolean;
   link: string;
+  /** REST에 등록된(show_in_rest) post meta */
+  meta?: Record<string, unknown>;
+  /** ACF 필드 값 (ACF 필드 그룹의 REST 출력이 켜진 경우) */
+  acf?: Record<string, unknown>;
+  /** Yoast SEO가 활성화된 사이트에서 출력하는 메타 태그 값 */
+  yoast_head_json?: YoastHeadJson;
 }
 
-export interface ListPostsParams {
+export interface ListPostsParams extends PaginationParams {
   page?: number;
   per_page?: number;
   search?: string;
+  /** 쉼표로 여러 상태 지정 가능 (예: future,draft) */
   status?: string;
+  /** 이 시각 이후 발행(예약)된 게시글 (사이트 시간대 기준 ISO 8601) */
+  after?: string;
+  /** 이 시각 이전 발행(예약)된 게시글 (사이트 시간대 기준 ISO 8601) */
+  before?: string;
+  modified_after?: string;
+  modified_before?: string;
+  categories?: number[];
+  categories_operator?: TermOperator;
+  categories_exclude?: number[];
+  tags?: number[];
+  tags_operator?: TermOperator;
+  tags_exclude?: number[];
+  /** categories와 tags 필터를 함께 쓸 때 두 조건의 결합 방식 (기본값: AND) */
+  tax_relation?: TermOperator;
+  author?: number[];
+  author_exclude?: number[];
+  include?: number[];
+  exclude?: number[];
+  slug?: string[];
+  sticky?: boolean;
   orderby?: string;
   order?: string;
+  /** edit이면 title/content/excerpt의 raw 값을 포함한다 (편집 권한 필요) */
+  context?: "view" | "edit";
+  /** 응답에 포함할 필드 (WordPress _fields). 생략하면 전체 필드 */
+  _fields?: string[];
 }
 
 export interface CreatePostParams {
@@ -31,6 +95,8 @@ export interface CreatePostParams {
   content: string;
   slug?: string;
   status?: string;
+  /** 사이트 시간대 기준 발행(예약) 일시 (YYYY-MM-DDTHH:mm:ss) */
+  date?: string;
   excerpt?: string;
   author?: number;
   featured_media?: number;
@@ -43,11 +109,36 @@ export interface UpdatePostParams {
   content?: string;
   slug?: string;
   status?: string;
+  date?: string;
   excerpt?: string;
   author?: number;
   featured_media?: number;
   categories?: number[];
   tags?: number[];
+  meta?: Record<string, unknown>;
+  acf?: Record<string, unknown>;
+}
+
+// --- Revision ---
+export interface WPRevision {
+  id: number;
+  /** 리비전이 속한 게시글 ID */
+  parent: number;
+  author: number;
+  date: string;
+  modified: string;
+  slug: string;
+  /** raw는 context=edit 요청에서만 포함된다 */
+  title: { rendered: string; raw?: string };
+  content: { rendered: string; raw?: string };
+  excerpt: { rendered: string; raw?: string };
+}
+
+export interface ListRevisionsParams extends PaginationParams {
+  page?: number;
+  per_page?: number;
+  order?: string;
+  orderby?: string;
 }
 
 // --- Category ---
@@ -61,7 +152,7 @@ export interface WPCategory {
   parent: number;
 }
 
-export interface ListCategoriesParams {
+export interface ListCategoriesParams extends PaginationParams {
   page?: number;
   per_page?: number;
   search?: string;
@@ -95,7 +186,18 @@ export interface WPTag {
   slug: string;
 }
 
-export interface ListTagsParams {
+/** 이름/슬러그로 term을 찾을 때 쓰는 최소 필드 */
+export interface WPTermRef {
+  id: number;
+  name: string;
+  slug: string;
+  /** 카테고리의 상위 term ID (태그에는 없음) */
+  parent?: number;
+}
+
+export type TermTaxonomy = "categories" | "tags";
+
+export interface ListTagsParams extends PaginationParams {
   page?: number;
   per_page?: number;
   search?: string;
@@ -116,14 +218,142 @@ export interface UpdateTagParams {
   slug?: string;
 }
 
+// --- Comment ---
+/** 댓글 상태. 조회 필터는 approve/hold/spam/trash를 사용하고, 응답의 status는 approved/hold/spam/trash이다 */
+export type CommentStatus = "approve" | "hold" | "spam" | "trash";
+
+export interface WPComment {
+  id: number;
+  post: number;
+  parent: number;
+  author: number;
+  author_name: string;
+  /** context=edit에서만 포함된다 */
+  author_email?: string;
+  author_url: string;
+  author_ip?: string;
+  date: string;
+  content: { rendered: string; raw?: string };
+  link: string;
+  status: string;
+  type: string;
+}
+
+export interface ListCommentsParams extends PaginationParams {
+  page?: number;
+  per_page?: number;
+  post?: number;
+  parent?: number;
+  status?: CommentStatus;
+  author_email?: string;
+  search?: string;
+  /** 이 시각 이후 작성된 댓글 (ISO 8601) */
+  after?: string;
+  /** 이 시각 이전 작성된 댓글 (ISO 8601) */
+  before?: string;
+  orderby?: string;
+  order?: string;
+}
+
+export interface UpdateCommentParams {
+  status?: CommentStatus;
+  content?: string;
+  author_name?: string;
+  author_email?: string;
+  author_url?: string;
+}
+
+// --- User ---
+export interface WPUser {
+  id: number;
+  name: string;
+  slug: string;
+  link: string;
+  description: string;
+  /** 아래 필드는 context=edit에서만 포함된다 */
+  username?: string;
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+  roles?: string[];
+  registered_date?: string;
+  capabilities?: Record<string, boolean>;
+}
+
+export interface ListUsersParams extends PaginationParams {
+  page?: number;
+  per_page?: number;
+  search?: string;
+  roles?: string[];
+  /** true이면 공개된 글이 있는 사용자(작성자)만 조회한다 */
+  has_published_posts?: boolean;
+  orderby?: string;
+  order?: string;
+  /** edit이면 이메일, 역할 등 관리 정보를 포함한다 (사용자 목록 권한 필요) */
+  context?: "view" | "edit";
+}
+
+export interface CreateUserParams {
+  username: string;
+  email: string;
+  password: string;
+  name?: string;
+  first_name?: string;
+  last_name?: string;
+  url?: string;
+  description?: string;
+  roles?: string[];
+}
+
+export interface UpdateUserParams {
+  email?: string;
+  password?: string;
+  name?: string;
+  first_name?: string;
+  last_name?: string;
+  url?: string;
+  description?: string;
+  roles?: string[];
+}
+
 // --- Yoast SEO ---
+/**
+ * openmaru/v1/yoast-seo 엔드포인트로 읽고 쓰는 Yoast 메타 값. 키는 _yoast_wpseo_ 접두사를 뺀 post meta 이름이다.
+ */
 export interface YoastSeoData {
   focuskw?: string;
   metadesc?: string;
   title?: string;
+  canonical?: string;
+  /** "1": noindex, "2": index, "0" 또는 빈 값: 게시글 유형 기본값 */
+  "meta-robots-noindex"?: string;
+  "opengraph-title"?: string;
+  "opengraph-description"?: string;
+  "opengraph-image"?: string;
+  "twitter-title"?: string;
+  "twitter-description"?: string;
+  "twitter-image"?: string;
 }
 
-export interface YoastSeoResponse {
+/** 코어 REST 응답의 yoast_head_json (Yoast가 실제로 출력하는 값, 템플릿 변수 적용 후) */
+export interface YoastHeadJson {
+  title?: string;
+  description?: string;
+  canonical?: string;
+  robots?: { index?: string; follow?: string; [key: string]: string | undefined };
+  og_title?: string;
+  og_description?: string;
+  og_type?: string;
+  og_url?: string;
+  og_image?: { url: string; width?: number; height?: number; type?: string }[];
+  twitter_card?: string;
+  twitter_title?: string;
+  twitter_description?: string;
+  twitter_image?: string;
+  [key: string]: unknown;
+}
+
+export interface YoastSeoResponse extends YoastSeoData {
   id: number;
   focuskw: string;
   metadesc: string;
@@ -131,16 +361,271 @@ export interface YoastSeoResponse {
   [key: string]: unknown;
 }
 
+// --- Media ---
+export interface WPMedia {
+  id: number;
+  date: string;
+  slug: string;
+  status: string;
+  title: { rendered: string };
+  caption: { rendered: string };
+  description: { rendered: string };
+  alt_text: string;
+  author: number;
+  post: number | null;
+  media_type: string;
+  mime_type: string;
+  source_url: string;
+  media_details: Record<string, unknown>;
+  link: string;
+}
+
+export interface ListMediaParams extends PaginationParams {
+  page?: number;
+  per_page?: number;
+  search?: string;
+  media_type?: string;
+  mime_type?: string;
+  parent?: number;
+  orderby?: string;
+  order?: string;
+}
+
+export interface UploadMediaParams {
+  title?: string;
+  caption?: string;
+  description?: string;
+  alt_text?: string;
+  post?: number;
+}
+
+export interface UpdateMediaParams {
+  title?: string;
+  caption?: string;
+  description?: string;
+  alt_text?: string;
+  post?: number;
+}
+
+// --- Page ---
+export interface WPPage {
+  id: number;
+  date: string;
+  slug: string;
+  status: string;
+  /** raw는 context=edit 요청에서만 포함된다 */
+  title: { rendered: string; raw?: string };
+  content: { rendered: string; raw?: string };
+  excerpt: { rendered: string; raw?: string };
+  author: number;
+  featured_media: number;
+  parent: number;
+  menu_order: number;
+  template: string;
+  link: string;
+  /** REST에 등록된(show_in_rest) post meta */
+  meta?: Record<string, unknown>;
+  /** ACF 필드 값 (ACF 필드 그룹의 REST 출력이 켜진 경우) */
+  acf?: Record<string, unknown>;
+}
+
+export interface ListPagesParams extends PaginationParams {
+  page?: number;
+  per_page?: number;
+  search?: string;
+  status?: string;
+  parent?: number;
+  orderby?: string;
+  order?: string;
+  context?: "view" | "edit";
+}
+
+export interface CreatePageParams {
+  title: string;
+  content: string;
+  slug?: string;
+  status?: string;
+  excerpt?: string;
+  author?: number;
+  featured_media?: number;
+  parent?: number;
+  menu_order?: number;
+  template?: string;
+}
+
+export interface UpdatePageParams {
+  title?: string;
+  content?: string;
+  slug?: string;
+  status?: string;
+  excerpt?: string;
+  author?: number;
+  featured_media?: number;
+  parent?: number;
+  menu_order?: number;
+  template?: string;
+  meta?: Record<string, unknown>;
+}
+
+// --- Post Type / Taxonomy (generic REST resource) ---
+export interface WPPostType {
+  name: string;
+  slug: string;
+  description: string;
+  hierarchical: boolean;
+  rest_base: string;
+  rest_namespace?: string;
+  taxonomies: string[];
+}
+
+export interface WPTaxonomy {
+  name: string;
+  slug: string;
+  description: string;
+  hierarchical: boolean;
+  rest_base: string;
+  rest_namespace?: string;
+  types: string[];
+}
+
+/** /types와 /taxonomies에서 발견한 REST 리소스 */
+export interface RestResource {
+  kind: "postType" | "taxonomy";
+  slug: string;
+  name: string;
+  restBase: string;
+  namespace: string;
+  hierarchical: boolean;
+}
+
+export type QueryValue = string | number | boolean | Array<string | number>;
+
+export interface ListItemsParams extends PaginationParams {
+  page?: number;
+  per_page?: number;
+  search?: string;
+  status?: string;
+  parent?: number;
+  orderby?: string;
+  order?: string;
+  context?: "view" | "edit";
+  /** 리소스별 추가 쿼리 파라미터 (예: genre=3, product_cat=[1,2]) */
+  filters?: Record<string, QueryValue>;
+}
+
+/** 리소스마다 필드가 다르므로 공통 필드만 정의한다 */
+export interface WPItem {
+  id: number;
+  [key: string]: unknown;
+}
+
+/** 항목의 사용자 정의 필드. acf는 ACF의 REST 출력이 켜진 사이트에만 있다 */
+export interface WPItemFields {
+  id: number;
+  meta?: Record<string, unknown>;
+  acf?: Record<string, unknown>;
+}
+
+/** 사이트 기본 정보 (/wp-json 인덱스) */
+export interface WPSiteInfo {
+  name: string;
+  description: string;
+  url: string;
+  home: string;
+  gmt_offset: number | string;
+  timezone_string: string;
+  namespaces: string[];
+}
+
+/** 리소스 스키마 (OPTIONS 응답의 schema). meta/acf 속성에 REST에 노출된 필드 정의가 있다 */
+export interface ItemSchema {
+  title?: string;
+  properties: Record<string, FieldSchema>;
+}
+
+// --- Pagination ---
+const DEFAULT_PER_PAGE = 10;
+const MAX_PER_PAGE = 100;
+const DEFAULT_MAX_ITEMS = 1000;
+
+/** 목록 조회 결과와 WordPress 페이지네이션 헤더(X-WP-Total, X-WP-TotalPages) */
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  totalPages: number;
+  page: number;
+  perPage: number;
+  hasMore: boolean;
+  /** all 모드에서 maxItems 제한으로 일부만 반환된 경우 true */
+  truncated?: boolean;
+}
+
+export interface PaginationParams {
+  /** true이면 모든 페이지를 조회한다 (page/per_page 무시) */
+  all?: boolean;
+  /** all 모드의 최대 항목 수 (기본값: 1000) */
+  maxItems?: number;
+}
+
+// --- Retry ---
+/**
+ * 네트워크 오류/타임아웃 시에도 다시 보내도 안전한 메서드. DELETE는 첫 요청이 이미 처리되었으면 재시도가
+ * 404/410(rest_already_trashed)으로 실패하여 성공한 삭제를 실패로 보고하므로 제외한다
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT"]);
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+/** Retry-After가 이보다 길면 기다리지 않고 바로 실패시킨다 */
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/** 사이트별 동시 요청 제한. 세션마다 클라이언트가 생성되어도 같은 사이트는 한도를 공유한다 */
+const limiters = new Map<string, ConcurrencyLimiter>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Retry-After 헤더(초 또는 HTTP 날짜)를 ms로 변환한다 */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 택소노미 term 필터 쿼리. AND 조합은 WordPress 6.2+의 객체 형식(categories[terms]=1,2&categories[operator]=AND)을 사용한다.
+ */
+function termFilter(
+  name: string,
+  ids: number[] | undefined,
+  operator: TermOperator | undefined
+): Record<string, string | undefined> {
+  if (!ids || ids.length === 0) return {};
+  if (operator === "AND") {
+    return { [`${name}[terms]`]: ids.join(","), [`${name}[operator]`]: "AND" };
+  }
+  return { [name]: ids.join(",") };
+}
+
 export class WordPressClient {
   private siteUrl: string;
   private baseUrl: string;
   private authHeader: string;
   private dispatcher: Dispatcher | undefined;
+  private resources: Promise<RestResource[]> | undefined;
+  private timezone: Promise<SiteTimezone> | undefined;
+  private schemas = new Map<string, Promise<ItemSchema>>();
+  private policy: RequestPolicy;
+  private limiter: ConcurrencyLimiter;
 
-  constructor(config: Config) {
+  constructor(config: SiteConfig) {
     this.siteUrl = config.baseUrl;
     this.baseUrl = `${config.baseUrl}/wp-json/wp/v2`;
 
+    if (!config.auth) {
+      throw new Error(`[${config.name}] WordPress 인증 정보가 없습니다. 사이트 계정을 설정하거나 세션 자격 증명을 보내세요.`);
+    }
     if (config.auth.type === "bearer") {
       this.authHeader = `Bearer ${config.auth.token}`;
     } else {
@@ -150,6 +635,14 @@ export class WordPressClient {
       this.authHeader = `Basic ${encoded}`;
     }
 
+    this.policy = config.requestPolicy;
+    let limiter = limiters.get(config.baseUrl);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(config.requestPolicy.maxConcurrency);
+      limiters.set(config.baseUrl, limiter);
+    }
+    this.limiter = limiter;
+
     // 자체 서명 인증서 허용 (로컬 개발 환경)
     if (!config.tlsRejectUnauthorized) {
       logger.warn("TLS 인증서 검증이 비활성화되었습니다 (자체 서명 인증서 허용)");
@@ -165,7 +658,29 @@ export class WordPressClient {
     body?: unknown,
     queryParams?: Record<string, string | number | undefined>
   ): Promise<T> {
-    const url = new URL(`${this.baseUrl}${path}`);
+    const { data } = await this.send<T>(method, `${this.baseUrl}${path}`, body, queryParams);
+    return data;
+  }
+
+  /** 커스텀 REST API 엔드포인트 요청 (wp/v2 이외의 경로) */
+  private async requestCustom<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    queryParams?: Record<string, string | number | undefined>
+  ): Promise<T> {
+    const { data } = await this.send<T>(method, `${this.siteUrl}/wp-json${path}`, body, queryParams);
+    return data;
+  }
+
+  /** request/requestCustom 공통 HTTP 처리. 페이지네이션 헤더를 읽을 수 있도록 응답 헤더도 반환한다 */
+  private async send<T>(
+    method: string,
+    endpoint: string,
+    body?: unknown,
+    queryParams?: Record<string, string | number | undefined>
+  ): Promise<{ data: T; headers: Headers }> {
+    const url = new URL(endpoint);
 
     if (queryParams) {
       for (const [key, value] of Object.entries(queryParams)) {
@@ -175,19 +690,29 @@ export class WordPressClient {
       }
     }
 
+    const dryRun = currentDryRun();
+    if (dryRun && WRITE_METHODS.has(method)) {
+      return { data: (await this.planWrite(dryRun, method, url, body)) as T, headers: new Headers() };
+    }
+
     logger.debug(`${method} ${url.toString()}`);
 
+    const isMultipart = body instanceof FormData;
     const options: RequestInit & { dispatcher?: unknown } = {
       method,
       headers: {
         Authorization: this.authHeader,
-        "Content-Type": "application/json",
+        // multipart 본문은 fetch가 boundary를 포함한 Content-Type을 직접 설정한다
+        ...(isMultipart ? {} : { "Content-Type": "application/json" }),
       },
     };
 
-    if (body && (method === "POST" || method === "PUT" || method === "PATCH")) {
+    if (isMultipart) {
+      options.body = body;
+      logger.debug("Request body: multipart/form-data");
+    } else if (body && (method === "POST" || method === "PUT" || method === "PATCH")) {
       options.body = JSON.stringify(body);
-      logger.debug(`Request body: ${options.body}`);
+      logger.debug(`Request body: ${JSON.stringify(body, redactSecrets)}`);
     }
 
     // 자체 서명 인증서 허용 dispatcher 적용
@@ -195,90 +720,293 @@ export class WordPressClient {
       options.dispatcher = this.dispatcher;
     }
 
-    const response = await fetch(url.toString(), options as RequestInit);
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      let errorMessage: string;
+    for (let attempt = 0; ; attempt++) {
+      let response: { status: number; statusText: string; headers: Headers; text: string };
       try {
-        const parsed = JSON.parse(errorBody);
-        errorMessage = parsed.message || errorBody;
-      } catch {
-        errorMessage = errorBody;
+        // 응답 본문까지 읽은 뒤 슬롯을 반환하여 동시 요청 수를 정확히 제한한다
+        response = await this.limiter.run(async () => {
+          const res = await fetch(url.toString(), {
+            ...(options as RequestInit),
+            signal: AbortSignal.timeout(this.policy.timeoutMs),
+          });
+          return {
+            status: res.status,
+            statusText: res.statusText,
+            headers: res.headers,
+            text: await res.text(),
+          };
+        });
+      } catch (err) {
+        const timedOut = err instanceof Error && err.name === "TimeoutError";
+        const reason = timedOut
+          ? `시간 초과 (${this.policy.timeoutMs}ms)`
+          : err instanceof Error
+            ? err.message
+            : String(err);
+        if (attempt < this.policy.maxRetries && IDEMPOTENT_METHODS.has(method)) {
+          const delay = this.backoff(attempt);
+          logger.warn(`${method} ${url.pathname} 실패: ${reason} — ${delay}ms 후 재시도 (${attempt + 1}/${this.policy.maxRetries})`);
+          await sleep(delay);
+          continue;
+        }
+        logger.error(`WordPress API 요청 실패: ${method} ${url.pathname} - ${reason}`);
+        throw WordPressApiError.network(
+          `WordPress API 요청 실패: ${reason}`,
+          timedOut ? "http_request_timeout" : "http_request_failed",
+          method,
+          url.pathname
+        );
       }
+
+      if (response.status >= 200 && response.status < 300) {
+        return {
+          data: (response.text ? JSON.parse(response.text) : null) as T,
+          headers: response.headers,
+        };
+      }
+
+      // 429는 요청이 처리되지 않았음이 보장되므로 POST/PATCH도 재시도한다
+      const retryable =
+        RETRYABLE_STATUS.has(response.status) &&
+        (IDEMPOTENT_METHODS.has(method) || response.status === 429);
+      if (attempt < this.policy.maxRetries && retryable) {
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        const delay = retryAfter ?? this.backoff(attempt);
+        if (delay <= MAX_RETRY_DELAY_MS) {
+          logger.warn(
+            `${method} ${url.pathname} 응답 ${response.status} — ${delay}ms 후 재시도 (${attempt + 1}/${this.policy.maxRetries})`
+          );
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      const error = WordPressApiError.fromResponse(response.status, response.text, method, url.pathname);
       logger.error(
-        `WordPress API 오류: ${response.status} ${response.statusText} - ${errorMessage}`
-      );
-      throw new Error(
-        `WordPress API 오류 (${response.status}): ${errorMessage}`
+        `WordPress API 오류: ${response.status} ${response.statusText} - [${error.code}] ${error.message}`
       );
+      throw error;
     }
-
-    return response.json() as Promise<T>;
   }
 
-  /** 커스텀 REST API 엔드포인트 요청 (wp/v2 이외의 경로) */
-  private async requestCustom<T>(
-    method: string,
-    path: string,
-    body?: unknown
-  ): Promise<T> {
-    const url = new URL(`${this.siteUrl}/wp-json${path}`);
-
-    logger.debug(`${method} ${url.toString()}`);
-
-    const options: RequestInit & { dispatcher?: unknown } = {
+  /**
+   * dryRun: 쓰기 요청을 보내지 않고 기록한다. 항목 경로(.../{id})면 현재 객체를 조회하여 필드 diff(삭제는 대상)를 만들고,
+   * 본문이 참조하는 작성자/대표 이미지/카테고리/태그가 있는지 확인한다
+   */
+  private async planWrite(recorder: DryRunRecorder, method: string, url: URL, body: unknown): Promise<unknown> {
+    const path = url.pathname.slice(new URL(`${this.siteUrl}/wp-json`).pathname.length);
+    const query = Object.fromEntries(url.searchParams);
+    const planned: PlannedRequest = {
       method,
-      headers: {
-        Authorization: this.authHeader,
-        "Content-Type": "application/json",
-      },
+      path,
+      ...(Object.keys(query).length > 0 ? { query } : {}),
+      body: body instanceof FormData ? describeFormData(body) : body,
     };
+    recorder.requests.push(planned);
+    logger.info(`[dryRun] ${method} ${path} — 전송하지 않음`);
 
-    if (body && (method === "POST" || method === "PUT" || method === "PATCH")) {
-      options.body = JSON.stringify(body);
-      logger.debug(`Request body: ${options.body}`);
+    let current: Record<string, unknown> | undefined;
+    if (/\/\d+$/.test(url.pathname)) {
+      try {
+        const { data } = await this.send<Record<string, unknown>>("GET", `${url.origin}${url.pathname}`, undefined, {
+          context: "edit",
+        });
+        current = data;
+      } catch (err) {
+        // GET을 지원하지 않는 커스텀 엔드포인트는 비교 없이 기록만 한다
+        if (!(err instanceof WordPressApiError && err.code === "rest_no_route")) {
+          recorder.problems.push(`${method} ${path}: 대상을 조회할 수 없습니다 — ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
     }
-
-    if (this.dispatcher) {
-      options.dispatcher = this.dispatcher;
+    if (current && method === "DELETE") {
+      planned.target = summarizeItem(current);
+    } else if (current && isPlainObject(body)) {
+      planned.diff = fieldDiff(current, body);
     }
+    if (isPlainObject(body)) {
+      const references = await this.checkReferences(recorder, path, body);
+      if (Object.keys(references).length > 0) planned.references = references;
+    }
+    return plannedResponse(recorder, method, query, body, current);
+  }
 
-    const response = await fetch(url.toString(), options as RequestInit);
+  /** dryRun: 본문의 ID 참조를 조회한다. 없는 ID는 recorder.problems에 기록한다 (음수는 같은 dryRun에서 만든 가상 ID) */
+  private async checkReferences(
+    recorder: DryRunRecorder,
+    path: string,
+    body: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    const references: Record<string, unknown> = {};
+    const tasks: Promise<void>[] = [];
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      let errorMessage: string;
-      try {
-        const parsed = JSON.parse(errorBody);
-        errorMessage = parsed.message || errorBody;
-      } catch {
-        errorMessage = errorBody;
-      }
-      logger.error(
-        `WordPress API 오류: ${response.status} ${response.statusText} - ${errorMessage}`
+    const single = (key: string, collection: string, fields: string, id: unknown) => {
+      if (typeof id !== "number" || id <= 0) return;
+      tasks.push(
+        this.request<Record<string, unknown>>("GET", `/${collection}/${id}`, undefined, { _fields: fields }).then(
+          (item) => {
+            references[key] = item;
+          },
+          (err) => {
+            recorder.problems.push(`${key} ${id}: ${err instanceof Error ? err.message : String(err)}`);
+          }
+        )
       );
-      throw new Error(
-        `WordPress API 오류 (${response.status}): ${errorMessage}`
+    };
+    const terms = (key: TermTaxonomy, ids: unknown) => {
+      if (!Array.isArray(ids) || ids.length === 0) return;
+      const existing = ids.filter((id): id is number => typeof id === "number" && id > 0);
+      tasks.push(
+        (existing.length > 0
+          ? this.request<WPTermRef[]>("GET", `/${key}`, undefined, {
+              include: existing.join(","),
+              per_page: 100,
+              _fields: "id,name",
+            })
+          : Promise.resolve([] as WPTermRef[])
+        ).then((found) => {
+          references[key] = ids.map((id) => found.find((term) => term.id === id) ?? (id < 0 ? { id, planned: true } : { id }));
+          const missing = existing.filter((id) => !found.some((term) => term.id === id));
+          if (missing.length > 0) recorder.problems.push(`${key}: 존재하지 않는 ID ${missing.join(", ")}`);
+        }, (err) => {
+          recorder.problems.push(`${key}: ${err instanceof Error ? err.message : String(err)}`);
+        })
       );
+    };
+
+    single("author", "users", "id,name", body.author);
+    single("featured_media", "media", "id,title,source_url", body.featured_media);
+    terms("categories", body.categories);
+    terms("tags", body.tags);
+    if (/^\/wp\/v2\/categories(\/\d+)?$/.test(path)) {
+      single("parent", "categories", "id,name", body.parent);
     }
+    await Promise.all(tasks);
+    return references;
+  }
 
-    return response.json() as Promise<T>;
+  /** 지수 백오프 지연 시간 (ms). 절반은 고정, 절반은 무작위 지터 */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(MAX_RETRY_DELAY_MS, this.policy.retryBaseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
   }
 
-  async listPosts(params: ListPostsParams = {}): Promise<WPPost[]> {
-    return this.request<WPPost[]>("GET", "/posts", undefined, {
+  /**
+   * 목록 엔드포인트를 조회하고 X-WP-Total / X-WP-TotalPages를 함께 반환한다.
+   * all=true이면 첫 페이지로 전체 페이지 수를 확인한 뒤 나머지 페이지를 동시에 조회한다.
+   * path는 /wp-json 이하의 전체 경로이다 (예: /wp/v2/posts)
+   */
+  private async requestList<T>(
+    path: string,
+    queryParams: Record<string, string | number | undefined>,
+    pagination: PaginationParams = {}
+  ): Promise<Paginated<T>> {
+    const endpoint = `${this.siteUrl}/wp-json${path}`;
+    const fetchPage = async (page: number | undefined, perPage: number | undefined) => {
+      const { data, headers } = await this.send<T[]>("GET", endpoint, undefined, {
+        ...queryParams,
+        page,
+        per_page: perPage,
+      });
+      return {
+        items: data,
+        total: parseInt(headers.get("x-wp-total") ?? String(data.length), 10),
+        totalPages: parseInt(headers.get("x-wp-totalpages") ?? "1", 10),
+      };
+    };
+
+    if (!pagination.all) {
+      const page = Number(queryParams.page ?? 1);
+      const perPage = Number(queryParams.per_page ?? DEFAULT_PER_PAGE);
+      const first = await fetchPage(queryParams.page as number | undefined, queryParams.per_page as number | undefined);
+      return {
+        items: first.items,
+        total: first.total,
+        totalPages: first.totalPages,
+        page,
+        perPage,
+        hasMore: page < first.totalPages,
+      };
+    }
+
+    const maxItems = pagination.maxItems ?? DEFAULT_MAX_ITEMS;
+    const first = await fetchPage(1, MAX_PER_PAGE);
+    const pagesNeeded = Math.min(first.totalPages, Math.ceil(maxItems / MAX_PER_PAGE));
+    const rest = await Promise.all(
+      Array.from({ length: Math.max(0, pagesNeeded - 1) }, (_, i) => fetchPage(i + 2, MAX_PER_PAGE))
+    );
+    const items = [first, ...rest].flatMap((result) => result.items).slice(0, maxItems);
+    const truncated = items.length < first.total;
+    if (truncated) {
+      logger.warn(`${path} 전체 조회가 maxItems(${maxItems})에서 중단됨 (전체 ${first.total}개)`);
+    }
+    return {
+      items,
+      total: first.total,
+      totalPages: first.totalPages,
+      page: 1,
+      perPage: MAX_PER_PAGE,
+      hasMore: truncated,
+      truncated,
+    };
+  }
+
+  async listPosts(params: ListPostsParams = {}): Promise<Paginated<WPPost>> {
+    return this.requestList<WPPost>("/wp/v2/posts", {
       page: params.page,
       per_page: params.per_page,
       search: params.search,
       status: params.status,
+      after: params.after,
+      before: params.before,
+      modified_after: params.modified_after,
+      modified_before: params.modified_before,
+      ...termFilter("categories", params.categories, params.categories_operator),
+      categories_exclude: params.categories_exclude?.join(","),
+      ...termFilter("tags", params.tags, params.tags_operator),
+      tags_exclude: params.tags_exclude?.join(","),
+      tax_relation: params.tax_relation,
+      author: params.author?.join(","),
+      author_exclude: params.author_exclude?.join(","),
+      include: params.include?.join(","),
+      exclude: params.exclude?.join(","),
+      slug: params.slug?.join(","),
+      sticky: params.sticky !== undefined ? String(params.sticky) : undefined,
       orderby: params.orderby,
       order: params.order,
+      context: params.context,
+      _fields: params._fields?.join(","),
+    }, params);
+  }
+
+  async getPost(id: number, context: "view" | "edit" = "view"): Promise<WPPost> {
+    return this.request<WPPost>("GET", `/posts/${id}`, undefined, {
+      context: context === "edit" ? context : undefined,
     });
   }
 
-  async getPost(id: number): Promise<WPPost> {
-    return this.request<WPPost>("GET", `/posts/${id}`);
+  /** 사이트 설정의 시간대 (/wp-json 인덱스). 사이트마다 한 번만 조회한다 */
+  async getSiteTimezone(): Promise<SiteTimezone> {
+    if (!this.timezone) {
+      this.timezone = this.requestCustom<{ timezone_string?: string; gmt_offset?: number | string }>(
+        "GET",
+        "/"
+      ).then((index) => ({
+        timezone: index.timezone_string ?? "",
+        gmtOffset: Number(index.gmt_offset ?? 0),
+      }));
+      this.timezone.catch(() => {
+        this.timezone = undefined;
+      });
+    }
+    return this.timezone;
+  }
+
+  /** 사이트 이름, 설명, 주소, 시간대, REST 네임스페이스 (/wp-json 인덱스) */
+  async getSiteInfo(): Promise<WPSiteInfo> {
+    return this.requestCustom<WPSiteInfo>("GET", "/", undefined, {
+      _fields: "name,description,url,home,gmt_offset,timezone_string,namespaces",
+    });
   }
 
   async createPost(params: CreatePostParams): Promise<WPPost> {
@@ -287,6 +1015,7 @@ export class WordPressClient {
       content: params.content,
       slug: params.slug,
       status: params.status || "draft",
+      date: params.date,
       excerpt: params.excerpt,
       author: params.author,
       featured_media: params.featured_media,
@@ -303,22 +1032,238 @@ export class WordPressClient {
     return this.request<WPPost>("PATCH", `/posts/${id}`, params);
   }
 
+  /** force=false이면 휴지통으로 이동하며, WordPress는 삭제 결과 대신 휴지통 상태의 게시글을 반환한다 */
   async deletePost(
     id: number,
     force: boolean = false
   ): Promise<{ deleted: boolean; previous: WPPost }> {
-    return this.request<{ deleted: boolean; previous: WPPost }>(
+    const result = await this.request<WPPost | { deleted: boolean; previous: WPPost }>(
       "DELETE",
       `/posts/${id}`,
       undefined,
       { force: force ? "true" : undefined }
     );
+    return "previous" in result ? result : { deleted: false, previous: result };
+  }
+
+  // --- Revisions ---
+
+  async listRevisions(postId: number, params: ListRevisionsParams = {}): Promise<Paginated<WPRevision>> {
+    return this.requestList<WPRevision>(`/wp/v2/posts/${postId}/revisions`, {
+      page: params.page,
+      per_page: params.per_page,
+      order: params.order,
+      orderby: params.orderby,
+    }, params);
+  }
+
+  async getRevision(postId: number, revisionId: number, context: "view" | "edit" = "view"): Promise<WPRevision> {
+    return this.request<WPRevision>("GET", `/posts/${postId}/revisions/${revisionId}`, undefined, {
+      context: context === "edit" ? context : undefined,
+    });
+  }
+
+  /** 리비전의 원본 제목/본문/요약을 게시글에 다시 저장한다. 저장 자체가 새 리비전으로 기록된다 */
+  async restoreRevision(postId: number, revisionId: number): Promise<WPPost> {
+    const revision = await this.getRevision(postId, revisionId, "edit");
+    const { title, content, excerpt } = revision;
+    // rendered 값으로 복원하면 블록 주석과 쇼트코드가 사라진 HTML이 저장되므로 원본이 없으면 복원하지 않는다
+    if (title.raw === undefined || content.raw === undefined || excerpt.raw === undefined) {
+      throw new Error(
+        `리비전 ${revisionId}의 원본 값(raw)을 조회할 수 없습니다. 게시글 편집 권한(context=edit)이 있는 계정인지 확인하세요.`
+      );
+    }
+    const result = await this.updatePost(postId, {
+      title: title.raw,
+      content: content.raw,
+      excerpt: excerpt.raw,
+    });
+    logger.info(`restoreRevision 결과 - post: ${postId}, revision: ${revisionId}`);
+    return result;
+  }
+
+  // --- Pages ---
+
+  async listPages(params: ListPagesParams = {}): Promise<Paginated<WPPage>> {
+    return this.requestList<WPPage>("/wp/v2/pages", {
+      page: params.page,
+      per_page: params.per_page,
+      search: params.search,
+      status: params.status,
+      parent: params.parent,
+      orderby: params.orderby,
+      order: params.order,
+      context: params.context,
+    }, params);
+  }
+
+  async getPage(id: number, context: "view" | "edit" = "view"): Promise<WPPage> {
+    return this.request<WPPage>("GET", `/pages/${id}`, undefined, {
+      context: context === "edit" ? context : undefined,
+    });
+  }
+
+  async createPage(params: CreatePageParams): Promise<WPPage> {
+    return this.request<WPPage>("POST", "/pages", {
+      ...params,
+      status: params.status || "draft",
+    });
+  }
+
+  async updatePage(id: number, params: UpdatePageParams): Promise<WPPage> {
+    return this.request<WPPage>("PATCH", `/pages/${id}`, params);
+  }
+
+  /** force=false이면 휴지통으로 이동하며, WordPress는 삭제 결과 대신 휴지통 상태의 페이지를 반환한다 */
+  async deletePage(
+    id: number,
+    force: boolean = false
+  ): Promise<{ deleted: boolean; previous: WPPage }> {
+    const result = await this.request<WPPage | { deleted: boolean; previous: WPPage }>(
+      "DELETE",
+      `/pages/${id}`,
+      undefined,
+      { force: force ? "true" : undefined }
+    );
+    return "previous" in result ? result : { deleted: false, previous: result };
+  }
+
+  // --- Post Types / Taxonomies ---
+
+  async listPostTypes(): Promise<Record<string, WPPostType>> {
+    return this.request<Record<string, WPPostType>>("GET", "/types");
+  }
+
+  async listTaxonomies(type?: string): Promise<Record<string, WPTaxonomy>> {
+    return this.request<Record<string, WPTaxonomy>>("GET", "/taxonomies", undefined, { type });
+  }
+
+  /** REST에 노출된 포스트 타입과 택소노미 목록. 사이트 구조는 자주 바뀌지 않으므로 인스턴스별로 캐시한다 */
+  async listResources(): Promise<RestResource[]> {
+    if (!this.resources) {
+      this.resources = Promise.all([this.listPostTypes(), this.listTaxonomies()]).then(
+        ([types, taxonomies]) => [
+          ...Object.values(types).map((t) => ({
+            kind: "postType" as const,
+            slug: t.slug,
+            name: t.name,
+            restBase: t.rest_base,
+            namespace: t.rest_namespace || "wp/v2",
+            hierarchical: t.hierarchical,
+          })),
+          ...Object.values(taxonomies).map((t) => ({
+            kind: "taxonomy" as const,
+            slug: t.slug,
+            name: t.name,
+            restBase: t.rest_base,
+            namespace: t.rest_namespace || "wp/v2",
+            hierarchical: t.hierarchical,
+          })),
+        ]
+      );
+      this.resources.catch(() => {
+        this.resources = undefined;
+      });
+    }
+    return this.resources;
+  }
+
+  /** 포스트 타입/택소노미 slug 또는 rest_base로 REST 리소스를 찾는다 */
+  async resolveResource(type: string): Promise<RestResource> {
+    const resources = await this.listResources();
+    const resource =
+      resources.find((r) => r.restBase === type) ?? resources.find((r) => r.slug === type);
+    if (!resource) {
+      const available = resources.map((r) => r.restBase).join(", ");
+      throw new Error(`REST에 노출된 리소스 "${type}"을(를) 찾을 수 없습니다. 사용 가능: ${available}`);
+    }
+    return resource;
+  }
+
+  private resourcePath(resource: RestResource, id?: number): string {
+    const base = `/${resource.namespace}/${resource.restBase}`;
+    return id !== undefined ? `${base}/${id}` : base;
+  }
+
+  async listItems(type: string, params: ListItemsParams = {}): Promise<Paginated<WPItem>> {
+    const resource = await this.resolveResource(type);
+    const filters = Object.fromEntries(
+      Object.entries(params.filters ?? {}).map(([key, value]) => [
+        key,
+        Array.isArray(value) ? value.join(",") : typeof value === "boolean" ? String(value) : value,
+      ])
+    );
+    return this.requestList<WPItem>(this.resourcePath(resource), {
+      ...filters,
+      page: params.page,
+      per_page: params.per_page,
+      search: params.search,
+      status: params.status,
+      parent: params.parent,
+      orderby: params.orderby,
+      order: params.order,
+      context: params.context,
+    }, params);
+  }
+
+  async getItem(type: string, id: number, context: "view" | "edit" = "view"): Promise<WPItem> {
+    const resource = await this.resolveResource(type);
+    return this.requestCustom<WPItem>("GET", this.resourcePath(resource, id), undefined, {
+      context: context === "edit" ? context : undefined,
+    });
+  }
+
+  async createItem(type: string, fields: Record<string, unknown>): Promise<WPItem> {
+    const resource = await this.resolveResource(type);
+    return this.requestCustom<WPItem>("POST", this.resourcePath(resource), fields);
+  }
+
+  async updateItem(type: string, id: number, fields: Record<string, unknown>): Promise<WPItem> {
+    const resource = await this.resolveResource(type);
+    return this.requestCustom<WPItem>("POST", this.resourcePath(resource, id), fields);
+  }
+
+  async deleteItem(
+    type: string,
+    id: number,
+    force: boolean = false
+  ): Promise<{ deleted?: boolean; previous?: WPItem } & Partial<WPItem>> {
+    const resource = await this.resolveResource(type);
+    return this.requestCustom<{ deleted?: boolean; previous?: WPItem } & Partial<WPItem>>(
+      "DELETE",
+      this.resourcePath(resource, id),
+      undefined,
+      { force: force ? "true" : undefined }
+    );
+  }
+
+  /** 리소스의 REST 스키마 (OPTIONS). 리소스마다 한 번만 조회한다 */
+  async getItemSchema(type: string): Promise<ItemSchema> {
+    const resource = await this.resolveResource(type);
+    let schema = this.schemas.get(resource.restBase);
+    if (!schema) {
+      schema = this.requestCustom<{ schema: ItemSchema }>("OPTIONS", this.resourcePath(resource)).then(
+        (response) => response.schema
+      );
+      schema.catch(() => this.schemas.delete(resource.restBase));
+      this.schemas.set(resource.restBase, schema);
+    }
+    return schema;
+  }
+
+  /** 항목의 meta와 acf 필드 (편집 컨텍스트) */
+  async getItemFields(type: string, id: number): Promise<WPItemFields> {
+    const resource = await this.resolveResource(type);
+    return this.requestCustom<WPItemFields>("GET", this.resourcePath(resource, id), undefined, {
+      context: "edit",
+      _fields: "id,meta,acf",
+    });
   }
 
   // --- Categories ---
 
-  async listCategories(params: ListCategoriesParams = {}): Promise<WPCategory[]> {
-    return this.request<WPCategory[]>("GET", "/categories", undefined, {
+  async listCategories(params: ListCategoriesParams = {}): Promise<Paginated<WPCategory>> {
+    return this.requestList<WPCategory>("/wp/v2/categories", {
       _fields: "id,name",
       page: params.page,
       per_page: params.per_page,
@@ -327,7 +1272,7 @@ export class WordPressClient {
       order: params.order,
       hide_empty: params.hide_empty !== undefined ? String(params.hide_empty) : undefined,
       parent: params.parent,
-    });
+    }, params);
   }
 
   async getCategory(id: number): Promise<WPCategory> {
@@ -358,8 +1303,8 @@ export class WordPressClient {
 
   // --- Tags ---
 
-  async listTags(params: ListTagsParams = {}): Promise<WPTag[]> {
-    return this.request<WPTag[]>("GET", "/tags", undefined, {
+  async listTags(params: ListTagsParams = {}): Promise<Paginated<WPTag>> {
+    return this.requestList<WPTag>("/wp/v2/tags", {
       _fields: "id,name",
       page: params.page,
       per_page: params.per_page,
@@ -367,7 +1312,7 @@ export class WordPressClient {
       orderby: params.orderby,
       order: params.order,
       hide_empty: params.hide_empty !== undefined ? String(params.hide_empty) : undefined,
-    });
+    }, params);
   }
 
   async getTag(id: number): Promise<WPTag> {
@@ -395,8 +1340,166 @@ export class WordPressClient {
     );
   }
 
+  /** 이름 또는 슬러그에 search가 포함된 term 후보를 조회한다 (parent는 카테고리에만 적용) */
+  async searchTerms(taxonomy: TermTaxonomy, search: string, parent?: number): Promise<WPTermRef[]> {
+    return this.request<WPTermRef[]>("GET", `/${taxonomy}`, undefined, {
+      search,
+      parent,
+      per_page: 100,
+      hide_empty: "false",
+      _fields: taxonomy === "categories" ? "id,name,slug,parent" : "id,name,slug",
+    });
+  }
+
+  // --- Media ---
+
+  async listMedia(params: ListMediaParams = {}): Promise<Paginated<WPMedia>> {
+    return this.requestList<WPMedia>("/wp/v2/media", {
+      page: params.page,
+      per_page: params.per_page,
+      search: params.search,
+      media_type: params.media_type,
+      mime_type: params.mime_type,
+      parent: params.parent,
+      orderby: params.orderby,
+      order: params.order,
+    }, params);
+  }
+
+  async getMedia(id: number): Promise<WPMedia> {
+    return this.request<WPMedia>("GET", `/media/${id}`);
+  }
+
+  /** 파일을 multipart/form-data로 업로드하고 제목/캡션/대체 텍스트를 함께 설정한다 */
+  async uploadMedia(file: MediaFile, params: UploadMediaParams = {}): Promise<WPMedia> {
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(file.buffer)], { type: file.mimeType }), file.filename);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        form.append(key, String(value));
+      }
+    }
+    const result = await this.request<WPMedia>("POST", "/media", form);
+    logger.info(
+      `uploadMedia 결과 - id: ${result.id}, file: ${file.filename} (${file.mimeType}, ${file.buffer.length} bytes)`
+    );
+    return result;
+  }
+
+  async updateMedia(id: number, params: UpdateMediaParams): Promise<WPMedia> {
+    return this.request<WPMedia>("POST", `/media/${id}`, params);
+  }
+
+  /** 첨부 파일은 휴지통을 지원하지 않으므로 WordPress는 force=true를 요구한다 */
+  async deleteMedia(
+    id: number,
+    force: boolean = true
+  ): Promise<{ deleted: boolean; previous: WPMedia }> {
+    return this.request<{ deleted: boolean; previous: WPMedia }>(
+      "DELETE",
+      `/media/${id}`,
+      undefined,
+      { force: force ? "true" : undefined }
+    );
+  }
+
+  // --- Comments ---
+
+  /** 작성자 이메일 등 관리 정보가 필요하므로 context=edit로 조회한다 (댓글 관리 권한 필요) */
+  async listComments(params: ListCommentsParams = {}): Promise<Paginated<WPComment>> {
+    return this.requestList<WPComment>("/wp/v2/comments", {
+      context: "edit",
+      page: params.page,
+      per_page: params.per_page,
+      post: params.post,
+      parent: params.parent,
+      status: params.status,
+      author_email: params.author_email,
+      search: params.search,
+      after: params.after,
+      before: params.before,
+      orderby: params.orderby,
+      order: params.order,
+    }, params);
+  }
+
+  async getComment(id: number): Promise<WPComment> {
+    return this.request<WPComment>("GET", `/comments/${id}`, undefined, { context: "edit" });
+  }
+
+  /** 부모 댓글과 같은 게시글에 현재 계정 이름으로 답글을 작성한다 */
+  async replyToComment(parentId: number, content: string): Promise<WPComment> {
+    const parent = await this.getComment(parentId);
+    return this.request<WPComment>("POST", "/comments", {
+      post: parent.post,
+      parent: parent.id,
+      content,
+    });
+  }
+
+  async updateComment(id: number, params: UpdateCommentParams): Promise<WPComment> {
+    return this.request<WPComment>("PATCH", `/comments/${id}`, params, { context: "edit" });
+  }
+
+  /** force=false이면 휴지통으로 이동하며, WordPress는 삭제 결과 대신 휴지통 상태의 댓글을 반환한다 */
+  async deleteComment(id: number, force: boolean = false): Promise<{ deleted: boolean; previous: WPComment }> {
+    const result = await this.request<WPComment | { deleted: boolean; previous: WPComment }>(
+      "DELETE",
+      `/comments/${id}`,
+      undefined,
+      { force: force ? "true" : undefined, context: "edit" }
+    );
+    return "previous" in result ? result : { deleted: false, previous: result };
+  }
+
+  // --- Users ---
+
+  async listUsers(params: ListUsersParams = {}): Promise<Paginated<WPUser>> {
+    return this.requestList<WPUser>("/wp/v2/users", {
+      page: params.page,
+      per_page: params.per_page,
+      search: params.search,
+      roles: params.roles?.join(","),
+      has_published_posts: params.has_published_posts !== undefined ? String(params.has_published_posts) : undefined,
+      orderby: params.orderby,
+      order: params.order,
+      context: params.context,
+    }, params);
+  }
+
+  async getUser(id: number, context: "view" | "edit" = "view"): Promise<WPUser> {
+    return this.request<WPUser>("GET", `/users/${id}`, undefined, {
+      context: context === "edit" ? context : undefined,
+    });
+  }
+
+  /** 설정된 계정(또는 세션 자격 증명)의 사용자 정보. 역할과 권한(capabilities)을 포함한다 */
+  async getCurrentUser(): Promise<WPUser> {
+    return this.request<WPUser>("GET", "/users/me", undefined, { context: "edit" });
+  }
+
+  async createUser(params: CreateUserParams): Promise<WPUser> {
+    return this.request<WPUser>("POST", "/users", params, { context: "edit" });
+  }
+
+  async updateUser(id: number, params: UpdateUserParams): Promise<WPUser> {
+    return this.request<WPUser>("PATCH", `/users/${id}`, params, { context: "edit" });
+  }
+
   // --- Yoast SEO ---
 
+  /** 게시글의 yoast_head_json. Yoast가 비활성화되었으면 yoast_head_json 필드가 없다 */
+  async getYoastHead(id: number): Promise<Pick<WPPost, "id" | "link" | "yoast_head_json">> {
+    return this.request<Pick<WPPost, "id" | "link" | "yoast_head_json">>("GET", `/posts/${id}`, undefined, {
+      _fields: "id,link,yoast_head_json",
+    });
+  }
+
+  /** openmaru/v1 엔드포인트에 저장된 Yoast 메타 값 (초점 키워드 등 yoast_head_json에 없는 값 포함) */
+  async getYoastSeo(id: number): Promise<YoastSeoResponse> {
+    return this.requestCustom<YoastSeoResponse>("GET", `/openmaru/v1/yoast-seo/${id}`);
+  }
+
   async updateYoastSeo(id: number, params: YoastSeoData): Promise<YoastSeoResponse> {
     return this.requestCustom<YoastSeoResponse>("POST", `/openmaru/v1/yoast-seo/${id}`, params);
   }